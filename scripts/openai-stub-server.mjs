@@ -0,0 +1,92 @@
+// A tiny OpenAI-compatible server for trying the self-hosted provider without
+// running a model. Answers /v1/models and /v1/chat/completions (streaming or
+// not) with canned replies in the format the summary prompts ask for.
+//
+//   node scripts/openai-stub-server.mjs [port]
+//
+// Then choose "OpenAI-compatible (self-hosted)" in Settings and connect to
+// http://localhost:<port>.
+import { createServer } from 'node:http'
+
+const PORT = Number(process.argv[2] ?? 8787)
+const MODELS = ['stub-small', 'stub-large']
+const METADATA_MARKER = '###METADATA###'
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS'
+}
+
+function buildReply(messages) {
+  const prompt = messages.at(-1)?.content ?? ''
+  if (!prompt.includes(METADATA_MARKER)) {
+    return `This is a stub reply to: "${prompt.slice(0, 80).replace(/\s+/g, ' ')}"`
+  }
+
+  const metadata = { sentiment: 'neutral', keyThemes: ['stub', 'testing'] }
+  if (prompt.includes('"consensus"')) {
+    Object.assign(metadata, {
+      consensus: ['The stub server works'],
+      disagreements: [],
+      topPoints: ['Replies are canned']
+    })
+  }
+  return `This summary came from the local stub server. It did not read the page.\n${METADATA_MARKER}\n${JSON.stringify(metadata, null, 2)}`
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+async function readBody(req) {
+  let body = ''
+  for await (const chunk of req) body += chunk
+  return JSON.parse(body || '{}')
+}
+
+async function streamReply(res, model, reply) {
+  res.writeHead(200, { ...CORS_HEADERS, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' })
+  for (const token of reply.match(/\s*\S+/g) ?? []) {
+    const chunk = { object: 'chat.completion.chunk', model, choices: [{ index: 0, delta: { content: token } }] }
+    res.write(`data: ${JSON.stringify(chunk)}\n\n`)
+    await new Promise((resolve) => setTimeout(resolve, 20))
+  }
+  res.write('data: [DONE]\n\n')
+  res.end()
+}
+
+const server = createServer(async (req, res) => {
+  console.log(`${req.method} ${req.url}`)
+
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, CORS_HEADERS)
+    res.end()
+  } else if (req.method === 'GET' && req.url === '/v1/models') {
+    sendJson(res, 200, { object: 'list', data: MODELS.map((id) => ({ id, object: 'model', owned_by: 'stub' })) })
+  } else if (req.method === 'POST' && req.url === '/v1/chat/completions') {
+    const { model, messages = [], stream } = await readBody(req)
+    if (!MODELS.includes(model)) {
+      sendJson(res, 404, { error: { message: `Unknown model: ${model}` } })
+      return
+    }
+
+    const reply = buildReply(messages)
+    if (stream) {
+      await streamReply(res, model, reply)
+    } else {
+      sendJson(res, 200, {
+        object: 'chat.completion',
+        model,
+        choices: [{ index: 0, message: { role: 'assistant', content: reply }, finish_reason: 'stop' }]
+      })
+    }
+  } else {
+    sendJson(res, 404, { error: { message: 'Not found' } })
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`🧪 OpenAI-compatible stub server on http://localhost:${PORT}`)
+})
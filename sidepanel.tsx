@@ -0,0 +1 @@
+export { default } from "./src/sidepanel"
\ No newline at end of file
@@ -1,4 +1,156 @@
 // Remove AI SDK imports from background script to avoid service worker import issues
+import { AUTO_SUMMARIZE_DELAY_MS, shouldAutoSummarize, takeAutoSummarizeSlot } from './lib/autoSummarize'
+import {
+  BATCH_CONCURRENCY,
+  BATCH_STATE_KEY,
+  MAX_BATCH_TABS,
+  NO_TAB_GROUP,
+  formatDigestSources,
+  getBatchScopeLabel,
+  isSummarizableUrl,
+  runWithConcurrency
+} from './lib/batch'
+import { hashContent, resolveCanonicalUrl } from './lib/cacheKeys'
+import { CHAT_PORT_NAME, type ChatRequest, type ChatStreamMessage } from './lib/chat'
+import { estimateTokens, planChunks } from './lib/chunking'
+import { countComments, formatCommentThread } from './lib/comments'
+import type { CompareRequest, ComparisonEntry } from './lib/compare'
+import { diffContent } from './lib/diff'
+import { collapseWhitespace, type ExtractedPage, type PageSnapshot } from './lib/extraction'
+import { convertHtmlOffscreen, parseArticleOffscreen } from './lib/offscreen'
+import { captureSelectorSnapshot, extractComments, getCanonicalLink, getSelectedText, showSelectionOverlay } from './lib/pageScripts'
+import {
+  buildChatSystemPrompt,
+  buildRepairPrompt,
+  buildSelectionPrompt,
+  createChangesPrompts,
+  createPagePrompts,
+  digestPrompts,
+  discussionPrompts,
+  type PromptSet
+} from './lib/prompts'
+import { addSelectorToSites, findSiteConfig } from './lib/siteRules'
+import {
+  SELECTION_ACTIONS,
+  SELECTION_RESULT_KEY,
+  findSelectionAction,
+  findSelectionActionForCommand,
+  type SelectionActionOption
+} from './lib/selection'
+import { settingsStorage } from './lib/settings'
+import { summaryStorage } from './lib/storage'
+import { keyVault } from './lib/vault'
+import { findPromptTemplate, getLanguageName } from './lib/templates'
+import { addUsage, estimateCost, formatCost, usageStorage } from './lib/usage'
+import { getHostname } from './lib/utils'
+import {
+  complete,
+  findModelOption,
+  getContextWindow,
+  getCurrentProviderSettings,
+  getProviderAdapter,
+  getProviderChain,
+  hasHostPermission,
+  isProviderConfigured,
+  runWithFallback,
+  streamCompletion,
+  supportsStructuredOutput,
+  type ProviderTarget
+} from './lib/providers'
+import {
+  SUMMARIZE_PORT_NAME,
+  createSummaryStreamFilter,
+  parseSummaryResponse,
+  parseSummaryText,
+  type SummaryStreamMessage
+} from './lib/summary'
+import type {
+  BatchScope,
+  BatchState,
+  BatchTab,
+  CommentData,
+  GeneratedSummary,
+  LLMSettings,
+  SelectionOutput,
+  SelectionResult,
+  SiteConfig,
+  SummaryMode,
+  ResearchDigest,
+  SummaryResult,
+  TokenUsage,
+  UsageBudget,
+  UsageCost,
+  UsageFeature
+} from './lib/types'
+
+interface SummarizeRequest {
+  url: string
+  title: string
+  tabId: number
+  mode?: SummaryMode
+  templateId?: string
+  // For "changes" summaries, the summary of the version to compare against
+  previousSummaryId?: string
+}
+
+interface SummarizeOptions {
+  onToken?: (text: string) => void
+  onProgress?: (chunk: number, totalChunks: number) => void
+  signal?: AbortSignal
+  onUsage?: (usage: TokenUsage) => void
+  // Comparisons extract the page once and ask each provider directly,
+  // without falling back to another
+  page?: ExtractedPage
+  target?: ProviderTarget
+}
+
+interface UsageMeter {
+  record: (usage: TokenUsage) => void
+  // Everything recorded so far, for storing with the result
+  total?: UsageCost
+}
+
+type SummaryBadge = 'working' | 'ready' | null
+
+interface SelectionDisplay {
+  update: (text: string) => void
+  finish: () => void
+  fail: (error: string) => void
+}
+
+// Context-menu entries for selected text; the same actions have keyboard commands
+chrome.runtime.onInstalled.addListener(() => {
+  chrome.contextMenus.removeAll(() => {
+    for (const action of SELECTION_ACTIONS) {
+      chrome.contextMenus.create({ id: action.id, title: action.title, contexts: ['selection'] })
+    }
+  })
+})
+
+chrome.contextMenus.onClicked.addListener((info, tab) => {
+  const action = findSelectionAction(info.menuItemId)
+  if (action && tab?.id) {
+    runSelectionAction(action, tab, info.selectionText)
+  }
+})
+
+chrome.commands.onCommand.addListener((command, tab) => {
+  const action = findSelectionActionForCommand(command)
+  if (action && tab?.id) {
+    runSelectionAction(action, tab)
+  }
+})
+
+// Summarize allowlisted pages once they settle; a new navigation restarts the wait
+chrome.tabs.onUpdated.addListener((tabId, changeInfo) => {
+  if (changeInfo.url) setSummaryBadge(tabId, null)
+  if (changeInfo.url || changeInfo.status === 'complete') scheduleAutoSummarize(tabId)
+})
+
+chrome.tabs.onRemoved.addListener((tabId) => {
+  clearTimeout(autoSummarizeTimers.get(tabId))
+  autoSummarizeTimers.delete(tabId)
+})
 
 // Listen for messages from popup and content scripts
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
@@ -9,90 +161,866 @@ chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
     return true // Will respond asynchronously
   }
 
+  if (request.action === 'elementPicked') {
+    handleElementPicked(request, sendResponse)
+    return true
+  }
+
+  if (request.action === 'checkPageChanged') {
+    handleCheckPageChanged(request, sendResponse)
+    return true
+  }
+
+  if (request.action === 'getCanonicalUrl') {
+    getPageCanonicalUrl(request.tabId, request.url).then((canonicalUrl) => sendResponse({ canonicalUrl }))
+    return true
+  }
+
+  if (request.action === 'compareSummaries') {
+    handleCompareSummaries(request, sendResponse)
+    return true
+  }
+
+  if (request.action === 'summarizeTabs') {
+    handleSummarizeTabs(request, sendResponse)
+    return true
+  }
+
+  if (request.action === 'cancelBatch') {
+    if (batchController) {
+      batchController.abort()
+    } else {
+      // Left behind by a worker that was stopped mid-batch; it can't be resumed
+      chrome.storage.session.remove(BATCH_STATE_KEY)
+    }
+    sendResponse({ success: true })
+    return false
+  }
+
   return false
 })
 
-async function handleSummarizePage(request: any, sendResponse: (response: any) => void) {
-  const { url, title, tabId } = request
-  const startTime = Date.now()
+// Streaming summaries use a long-lived port so tokens can be pushed as they arrive
+chrome.runtime.onConnect.addListener((port) => {
+  if (port.name === CHAT_PORT_NAME) {
+    handleChatPort(port)
+    return
+  }
+  if (port.name !== SUMMARIZE_PORT_NAME) return
 
-  try {
-    console.log('📄 Starting page summarization for:', url)
-
-    // Get page content
-    const pageContent = await getPageContent(tabId)
-    if (!pageContent) {
-      sendResponse({
-        success: false,
-        error: 'Could not extract page content'
+  const controller = new AbortController()
+  port.onDisconnect.addListener(() => controller.abort())
+
+  port.onMessage.addListener(async (request) => {
+    if (request.action !== 'summarizePage') return
+
+    try {
+      const summary = await summarizePage(request, {
+        onToken: (text) => postStreamMessage(port, { type: 'token', text }),
+        onProgress: (chunk, totalChunks) => postStreamMessage(port, { type: 'progress', chunk, totalChunks }),
+        signal: controller.signal
+      })
+      postStreamMessage(port, { type: 'done', summary })
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error('❌ Error in summarize port:', error)
+      postStreamMessage(port, {
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Failed to generate summary'
       })
-      return
     }
+  })
+})
+
+function postStreamMessage(port: chrome.runtime.Port, message: SummaryStreamMessage | ChatStreamMessage) {
+  port.postMessage(message)
+}
 
-    console.log('📝 Extracted content length:', pageContent.length)
+function handleChatPort(port: chrome.runtime.Port) {
+  const controller = new AbortController()
+  port.onDisconnect.addListener(() => controller.abort())
 
-    // Get LLM settings from storage
-    const result = await chrome.storage.local.get(['llmSettings'])
-    if (!result.llmSettings) {
-      sendResponse({
-        success: false,
-        error: 'LLM settings not configured'
+  port.onMessage.addListener(async (request) => {
+    if (request.action !== 'askQuestion') return
+
+    try {
+      const content = await answerQuestion(
+        request,
+        (text) => postStreamMessage(port, { type: 'token', text }),
+        controller.signal
+      )
+      postStreamMessage(port, {
+        type: 'done',
+        message: { role: 'assistant', content, createdAt: new Date().toISOString() }
+      })
+    } catch (error) {
+      if (controller.signal.aborted) return
+      console.error('❌ Error in chat port:', error)
+      postStreamMessage(port, {
+        type: 'error',
+        error: error instanceof Error ? error.message : 'Failed to answer question'
       })
-      return
     }
+  })
+}
+
+async function handleSummarizePage(request: SummarizeRequest, sendResponse: (response: any) => void) {
+  try {
+    const summary = await summarizePage(request)
+    sendResponse({ ...summary, success: true })
+  } catch (error) {
+    console.error('❌ Error in handleSummarizePage:', error)
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to generate summary'
+    })
+  }
+}
 
-    const settings = result.llmSettings
-    const currentProvider = settings.providers[settings.currentProvider]
+// Compare the page as it is now with the content a saved summary was written from
+async function handleCheckPageChanged(
+  request: { tabId: number; url: string; contentHash: string },
+  sendResponse: (response: any) => void
+) {
+  sendResponse({ changed: await hasPageChanged(request.tabId, request.url, request.contentHash) })
+}
 
-    if (!currentProvider?.apiKey) {
-      sendResponse({
-        success: false,
-        error: 'API key not configured'
+// Pages that can't be read count as unchanged
+async function hasPageChanged(tabId: number, url: string, contentHash: string): Promise<boolean> {
+  const page = await getPageContent(tabId, url)
+  if (!page?.content) return false
+  cachePage(tabId, url, page)
+  return (await hashContent(page.content)) !== contentHash
+}
+
+async function handleCompareSummaries(request: CompareRequest, sendResponse: (response: any) => void) {
+  try {
+    sendResponse({ success: true, entries: await compareProviders(request) })
+  } catch (error) {
+    console.error('❌ Error in handleCompareSummaries:', error)
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to compare providers'
+    })
+  }
+}
+
+// Summarize the same extracted page with each provider in parallel. One
+// provider failing doesn't stop the others.
+async function compareProviders({ providers, ...request }: CompareRequest): Promise<ComparisonEntry[]> {
+  const settings = await getConfiguredLLMSettings()
+  const targets: ProviderTarget[] = []
+  for (const provider of new Set(providers)) {
+    const providerSettings = settings.providers[provider]
+    if (!providerSettings || !getProviderAdapter(provider).isConfigured(providerSettings)) continue
+    if (providerSettings.baseUrl && !(await hasHostPermission(providerSettings.baseUrl))) continue
+    targets.push({ provider, settings: providerSettings })
+  }
+  if (targets.length < 2) {
+    throw new Error('Choose at least two providers with working API keys to compare')
+  }
+
+  const page = await getPageContent(request.tabId, request.url)
+  if (!page?.content) {
+    throw new Error('Could not extract page content')
+  }
+  cachePage(request.tabId, request.url, page)
+
+  console.log(`⚖️ Comparing ${targets.map(({ provider }) => provider).join(', ')} on:`, request.url)
+  const results = await Promise.allSettled(
+    targets.map(target => summarizePage({ ...request, mode: 'page' }, { page, target }))
+  )
+  return results.map((result, index) => result.status === 'fulfilled'
+    ? { provider: targets[index].provider, summary: result.value }
+    : {
+        provider: targets[index].provider,
+        error: result.reason instanceof Error ? result.reason.message : 'Failed to generate summary'
       })
-      return
-    }
+}
 
-    // Generate summary using LLM (offload to a different approach to avoid service worker issues)
-    const summaryResult = await generateSummaryViaFetch(pageContent, title, settings)
-    
-    const processingTime = Date.now() - startTime
-
-    // Create summary object
-    const summary = {
-      id: crypto.randomUUID(),
-      url,
-      title,
-      summary: summaryResult.summary,
-      sentiment: summaryResult.sentiment || 'neutral',
-      keyThemes: summaryResult.keyThemes || [],
-      commentCount: summaryResult.wordCount || 0,
-      createdAt: new Date().toISOString(),
-      processingTime,
-      success: true
+// Validate the request up front so the popup can show why it can't start;
+// the batch itself reports progress through session storage
+async function handleSummarizeTabs(request: { scope: BatchScope; tabId: number }, sendResponse: (response: any) => void) {
+  try {
+    if (batchController) {
+      throw new Error('Tabs are already being summarized')
     }
+    const tabs = await getBatchTabs(request.scope, request.tabId)
+    await getConfiguredLLMSettings()
+    sendResponse({ success: true })
+    summarizeTabs(request.scope, tabs)
+  } catch (error) {
+    console.error('❌ Error in handleSummarizeTabs:', error)
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : 'Failed to start summarizing tabs'
+    })
+  }
+}
 
-    console.log('✅ Summary generated successfully')
-    sendResponse(summary)
-
+// Save a selector chosen with the in-page picker into that site's rule
+async function handleElementPicked(request: { selector: string; hostname: string }, sendResponse: (response: any) => void) {
+  try {
+    const { enabledSites } = await settingsStorage.loadSettings()
+    await settingsStorage.updateSettings({
+      enabledSites: addSelectorToSites(enabledSites, request.hostname, request.selector)
+    })
+    console.log(`🎯 Saved selector for ${request.hostname}:`, request.selector)
+    sendResponse({ success: true })
   } catch (error) {
-    console.error('❌ Error in handleSummarizePage:', error)
+    console.error('❌ Error saving picked selector:', error)
     sendResponse({
       success: false,
-      error: error instanceof Error ? error.message : 'Failed to generate summary'
+      error: error instanceof Error ? error.message : 'Failed to save selector'
     })
   }
 }
 
-async function getPageContent(tabId: number): Promise<string | null> {
+// The batch of tabs being summarized, if any; one runs at a time
+let batchController: AbortController | null = null
+
+// Tabs to summarize, in tab-strip order. Without host access Chrome hides a
+// tab's URL, so only pages the popup was granted access to are included.
+async function getBatchTabs(scope: BatchScope, tabId: number): Promise<chrome.tabs.Tab[]> {
+  const tab = await chrome.tabs.get(tabId)
+  if (scope === 'group' && tab.groupId === NO_TAB_GROUP) {
+    throw new Error("This tab isn't in a tab group")
+  }
+
+  const tabs = await chrome.tabs.query(scope === 'group' ? { groupId: tab.groupId } : { windowId: tab.windowId })
+  const pages = tabs.filter(tab => isSummarizableUrl(tab.url))
+  if (pages.length === 0) {
+    throw new Error(`No web pages to summarize in this ${getBatchScopeLabel(scope)}`)
+  }
+  if (pages.length > MAX_BATCH_TABS) {
+    console.warn(`📑 Summarizing the first ${MAX_BATCH_TABS} of ${pages.length} tabs`)
+  }
+  return pages.slice(0, MAX_BATCH_TABS)
+}
+
+// Summarize each tab, a few at a time, saving each summary to history, then
+// write a digest of them all
+async function summarizeTabs(scope: BatchScope, tabs: chrome.tabs.Tab[]) {
+  const controller = new AbortController()
+  batchController = controller
+
+  const state: BatchState = {
+    scope,
+    status: 'summarizing',
+    tabs: tabs.map(tab => ({
+      tabId: tab.id!,
+      url: tab.url!,
+      title: tab.title || getHostname(tab.url!),
+      // Unloaded tabs have no page to read
+      ...(tab.discarded ? { status: 'skipped', error: 'Tab is unloaded; open it to include it' } : { status: 'queued' })
+    })),
+    startedAt: new Date().toISOString()
+  }
+  const save = () => chrome.storage.session.set({ [BATCH_STATE_KEY]: state })
+  const updateTab = (index: number, update: Partial<BatchTab>) => {
+    state.tabs[index] = { ...state.tabs[index], ...update }
+    return save()
+  }
+
+  console.log(`📑 Summarizing ${tabs.length} tabs in this ${getBatchScopeLabel(scope)}`)
+  await save()
+
+  // Kept by index so the digest cites tabs in tab-strip order
+  const summaries: SummaryResult[] = []
   try {
+    const queued = [...state.tabs.keys()].filter(index => state.tabs[index].status === 'queued')
+    await runWithConcurrency(queued, BATCH_CONCURRENCY, async (index) => {
+      if (controller.signal.aborted) return
+      await updateTab(index, { status: 'running' })
+      try {
+        const { summary, cached } = await summarizeBatchTab(state.tabs[index], controller.signal)
+        summaries[index] = summary
+        await updateTab(index, { status: cached ? 'cached' : 'done', summaryId: summary.id })
+      } catch (error) {
+        console.error(`❌ Error summarizing tab ${state.tabs[index].url}:`, error)
+        await updateTab(index, {
+          status: controller.signal.aborted ? 'skipped' : 'error',
+          error: controller.signal.aborted ? 'Cancelled' : error instanceof Error ? error.message : 'Failed to generate summary'
+        })
+      }
+    })
+    controller.signal.throwIfAborted()
+
+    const sources = summaries.filter(Boolean)
+    if (sources.length >= 2) {
+      state.status = 'digesting'
+      await save()
+      state.digest = await writeResearchDigest(sources, controller.signal)
+    }
+    state.status = 'done'
+    console.log(`✅ Summarized ${sources.length} of ${tabs.length} tabs`)
+  } catch (error) {
+    if (controller.signal.aborted) {
+      state.status = 'cancelled'
+      state.tabs = state.tabs.map(tab => tab.status === 'queued' ? { ...tab, status: 'skipped', error: 'Cancelled' } : tab)
+    } else {
+      console.error('❌ Error writing research digest:', error)
+      state.status = 'error'
+      state.error = error instanceof Error ? error.message : 'Failed to write the digest'
+    }
+  } finally {
+    batchController = null
+    await save()
+  }
+}
+
+// Reuse the saved summary when the page hasn't changed since it was written
+async function summarizeBatchTab({ tabId, url, title }: BatchTab, signal: AbortSignal) {
+  const existing = await summaryStorage.getSummaryByUrl(url, await getPageCanonicalUrl(tabId, url))
+  if (existing?.contentHash && (existing.mode ?? 'page') === 'page' && !(await hasPageChanged(tabId, url, existing.contentHash))) {
+    return { summary: existing, cached: true }
+  }
+
+  const { id, createdAt, ...summaryData } = await summarizePage({ url, title, tabId }, { signal })
+  return { summary: await summaryStorage.createSummary(summaryData), cached: false }
+}
+
+// Cross-reference the tabs' summaries, citing each by its number in the list
+async function writeResearchDigest(sources: SummaryResult[], signal: AbortSignal): Promise<ResearchDigest> {
+  const settings = await getConfiguredLLMSettings()
+  const chain = await getSummaryProviderChain(settings)
+  const page: ExtractedPage = { content: formatDigestSources(sources), format: 'text', metadata: {} }
+
+  const { result, target } = await runWithFallback(
+    chain,
+    async (target) => {
+      const meter = await createUsageMeter(target, '', 'digest')
+      const result = await generateSummaryViaFetch(page, 'Research digest', target, digestPrompts, {
+        signal,
+        onUsage: meter.record
+      })
+      return { ...result, usage: meter.total }
+    },
+    signal
+  )
+
+  return {
+    summary: result.summary,
+    sentiment: result.sentiment,
+    keyThemes: result.keyThemes,
+    crossReferences: (result.crossReferences ?? []).map(reference => ({
+      ...reference,
+      sources: reference.sources.filter(source => source >= 1 && source <= sources.length)
+    })),
+    sources: sources.map(({ id, url, title }) => ({ summaryId: id, url, title })),
+    provider: target.provider,
+    model: target.settings.model,
+    usage: result.usage,
+    createdAt: new Date().toISOString()
+  }
+}
+
+// Pending automatic summaries by tab, and pages being summarized right now
+const autoSummarizeTimers = new Map<number, ReturnType<typeof setTimeout>>()
+const autoSummarizing = new Set<string>()
+
+function scheduleAutoSummarize(tabId: number) {
+  clearTimeout(autoSummarizeTimers.get(tabId))
+  autoSummarizeTimers.set(tabId, setTimeout(() => {
+    autoSummarizeTimers.delete(tabId)
+    autoSummarizeTab(tabId)
+  }, AUTO_SUMMARIZE_DELAY_MS))
+}
+
+function setSummaryBadge(tabId: number, badge: SummaryBadge) {
+  const text = badge === 'ready' ? '✓' : badge === 'working' ? '…' : ''
+  // The tab may have closed in the meantime
+  chrome.action.setBadgeText({ tabId, text }).catch(() => {})
+  if (badge) {
+    chrome.action.setBadgeBackgroundColor({ tabId, color: badge === 'ready' ? '#16a34a' : '#6b7280' }).catch(() => {})
+  }
+}
+
+// The user may have moved on while the summary was written
+async function updateBadgeIfStillOn(tabId: number, url: string, badge: SummaryBadge) {
+  const tab = await chrome.tabs.get(tabId).catch(() => null)
+  if (tab?.url === url) setSummaryBadge(tabId, badge)
+}
+
+// Tabs only expose URLs the extension has host access to, which the
+// allowlist grants when a pattern is added
+async function autoSummarizeTab(tabId: number) {
+  const tab = await chrome.tabs.get(tabId).catch(() => null)
+  if (!tab?.url || tab.status !== 'complete' || tab.incognito) return
+
+  const { url, title = '' } = tab
+  const settings = await settingsStorage.getSettings()
+  if (!settings.autoSummarize || !shouldAutoSummarize(url, settings.autoSummarizePatterns)) return
+
+  if (await summaryStorage.getSummaryByUrl(url, await getPageCanonicalUrl(tabId, url))) {
+    setSummaryBadge(tabId, 'ready')
+    return
+  }
+  if (autoSummarizing.has(url)) return
+
+  // A locked vault, missing key or spent budget would fail every page; skip
+  // quietly rather than use up the site's slots on it
+  try {
+    await getConfiguredLLMSettings()
+  } catch (error) {
+    console.log('⏸️ Skipping auto-summarize:', error instanceof Error ? error.message : error)
+    return
+  }
+
+  const hostname = getHostname(url)
+  if (!(await takeAutoSummarizeSlot(hostname))) {
+    console.log(`⏱️ Auto-summarize limit reached for ${hostname}`)
+    return
+  }
+
+  autoSummarizing.add(url)
+  setSummaryBadge(tabId, 'working')
+  try {
+    console.log('🤖 Auto-summarizing:', url)
+    const { id, createdAt, ...summaryData } = await summarizePage({ url, title, tabId })
+    const summary = await summaryStorage.createSummary(summaryData)
+    chrome.runtime.sendMessage({ action: 'summaryReady', summary }).catch(() => {
+      // No popup or side panel is open
+    })
+    await updateBadgeIfStillOn(tabId, url, 'ready')
+  } catch (error) {
+    console.error('❌ Error auto-summarizing page:', error)
+    await updateBadgeIfStillOn(tabId, url, null)
+  } finally {
+    autoSummarizing.delete(url)
+  }
+}
+
+// sidePanel.open only works while the click or key press is being handled,
+// before anything is awaited, so the preference is kept in memory
+let selectionOutput: SelectionOutput = 'overlay'
+settingsStorage.getSettings().then((settings) => {
+  selectionOutput = settings.selectionOutput
+})
+settingsStorage.subscribe((settings) => {
+  selectionOutput = settings.selectionOutput
+})
+
+async function runSelectionAction(action: SelectionActionOption, tab: chrome.tabs.Tab, selectionText?: string) {
+  const tabId = tab.id!
+  const panelOpened = selectionOutput === 'sidepanel'
+    ? chrome.sidePanel.open({ tabId }).then(() => true, () => false)
+    : Promise.resolve(false)
+
+  let display: SelectionDisplay | null = null
+  try {
+    const selection = (selectionText ?? await getTabSelection(tabId)).trim()
+    display = await panelOpened
+      ? createSidePanelDisplay(action, selection, tab.url ?? '')
+      : await createOverlayDisplay(tabId, action)
+
+    if (!selection) {
+      throw new Error('Select some text on the page first')
+    }
+
+    const settings = await getConfiguredLLMSettings()
+    const currentProvider = getCurrentProviderSettings(settings)!
+    const adapter = getProviderAdapter(settings.currentProvider)
+    const meter = await createUsageMeter({ provider: adapter.id, settings: currentProvider }, tab.url ?? '', 'selection')
+
+    console.log(`✂️ Running ${action.id} on ${selection.length} selected characters`)
+    let text = ''
+    await streamCompletion(
+      adapter,
+      currentProvider,
+      {
+        prompt: buildSelectionPrompt(
+          action.id,
+          selection.slice(0, MAX_SELECTION_CHARS),
+          tab.title ?? '',
+          getLanguageName()
+        ),
+        maxTokens: SELECTION_ANSWER_MAX_TOKENS
+      },
+      (token) => {
+        text += token
+        display?.update(text)
+      },
+      undefined,
+      meter.record
+    )
+    display.finish()
+  } catch (error) {
+    console.error(`❌ Error running ${action.id} on selection:`, error)
+    display?.fail(error instanceof Error ? error.message : `Failed to ${action.id} selection`)
+  }
+}
+
+async function getTabSelection(tabId: number): Promise<string> {
+  try {
+    const [result] = await chrome.scripting.executeScript({ target: { tabId }, func: getSelectedText })
+    return result?.result ?? ''
+  } catch {
+    return ''
+  }
+}
+
+async function createOverlayDisplay(tabId: number, action: SelectionActionOption): Promise<SelectionDisplay> {
+  await chrome.scripting.executeScript({
+    target: { tabId },
+    func: showSelectionOverlay,
+    args: [action.heading]
+  })
+
+  let text = ''
+  const send = (message: { status: SelectionResult['status']; text?: string; error?: string }) =>
+    chrome.tabs.sendMessage(tabId, { action: 'selectionOverlay', ...message }).catch(() => {
+      // The user closed the tab or navigated away
+    })
+
+  return {
+    update: (latest) => {
+      text = latest
+      send({ status: 'streaming', text })
+    },
+    finish: () => send({ status: 'done', text }),
+    fail: (error) => send({ status: 'error', error })
+  }
+}
+
+// The side panel reads the latest result from session storage, which also
+// covers a panel that is still loading when the first tokens arrive
+function createSidePanelDisplay(action: SelectionActionOption, selection: string, url: string): SelectionDisplay {
+  let result: SelectionResult = {
+    action: action.id,
+    selection,
+    text: '',
+    status: 'streaming',
+    url,
+    createdAt: new Date().toISOString()
+  }
+  const save = (updates: Partial<SelectionResult>) => {
+    result = { ...result, ...updates }
+    chrome.storage.session.set({ [SELECTION_RESULT_KEY]: result })
+  }
+
+  save({})
+  return {
+    update: (text) => save({ text }),
+    finish: () => save({ status: 'done' }),
+    fail: (error) => save({ status: 'error', error })
+  }
+}
+
+// Get LLM settings from storage, failing early when no key or server is set
+async function getConfiguredLLMSettings(): Promise<LLMSettings> {
+  if (await keyVault.isLocked()) {
+    throw new Error('API keys are locked. Unlock them in Settings.')
+  }
+
+  const { llm: settings, usageBudget } = await settingsStorage.getSettings()
+  if (!isProviderConfigured(settings)) {
+    throw new Error('API key not configured')
+  }
+  await enforceUsageBudget(usageBudget)
+
+  // Self-hosted servers need a host permission granted from Settings
+  const { baseUrl } = getCurrentProviderSettings(settings)!
+  if (baseUrl && !(await hasHostPermission(baseUrl))) {
+    throw new Error(`Allow access to ${baseUrl} in Settings first`)
+  }
+  return settings
+}
+
+async function enforceUsageBudget(budget: UsageBudget) {
+  const status = await usageStorage.checkBudget(budget)
+  if (status?.blocked) {
+    throw new Error(`Monthly budget of ${formatCost(status.limit)} reached. Raise it on the Usage tab to continue.`)
+  }
+  if (status?.exceeded) {
+    console.warn(`💸 Over the monthly budget: ${formatCost(status.spent)} of ${formatCost(status.limit)} spent`)
+  }
+}
+
+// Record each provider call for the usage dashboard, keeping a running total
+async function createUsageMeter({ provider, settings }: ProviderTarget, url: string, feature: UsageFeature): Promise<UsageMeter> {
+  const pricing = (await findModelOption(provider, settings))?.pricing
+  const meter: UsageMeter = {
+    record: (usage) => {
+      const cost = { ...usage, cost: estimateCost(usage, pricing) }
+      meter.total = addUsage(meter.total, cost)
+      usageStorage
+        .recordUsage({ ...cost, provider, model: settings.model, feature, hostname: getHostname(url) })
+        .catch((error) => console.error('Error recording usage:', error))
+    }
+  }
+  return meter
+}
+
+// The current provider plus any fallbacks that can be reached right now
+async function getSummaryProviderChain(settings: LLMSettings): Promise<ProviderTarget[]> {
+  const [current, ...fallbacks] = getProviderChain(settings)
+  const reachable = await Promise.all(
+    fallbacks.map(({ settings }) => !settings.baseUrl || hasHostPermission(settings.baseUrl))
+  )
+  return [current, ...fallbacks.filter((_, index) => reachable[index])]
+}
+
+async function summarizePage(request: SummarizeRequest, options: SummarizeOptions = {}): Promise<GeneratedSummary> {
+  const { url, title, tabId, mode = 'page' } = request
+  const startTime = Date.now()
+
+  console.log(`📄 Starting ${mode} summarization for:`, url)
+
+  const appSettings = await settingsStorage.getSettings()
+  let page: ExtractedPage | null
+  let commentCount = 0
+
+  if (mode === 'discussion') {
+    const { minComments } = appSettings
+    const comments = await getPageComments(tabId)
+    commentCount = countComments(comments)
+
+    if (commentCount < minComments) {
+      throw new Error(`Found ${commentCount} comments; discussion mode needs at least ${minComments}`)
+    }
+
+    console.log(`💬 Extracted ${commentCount} comments`)
+    page = { content: formatCommentThread(comments), format: 'text', metadata: {} }
+  } else if (options.page) {
+    page = options.page
+  } else {
+    page = await getPageContent(tabId, url)
+    if (page) cachePage(tabId, url, page)
+  }
+
+  if (!page?.content) {
+    throw new Error('Could not extract page content')
+  }
+
+  console.log(`📝 Extracted ${page.format} content length:`, page.content.length)
+
+  // The hash and snapshot describe the page itself, even when the model reads a diff
+  const snapshot = page.content
+  const contentHash = mode === 'discussion' ? undefined : await hashContent(snapshot)
+  let previous: SummaryResult | null = null
+  if (mode === 'changes') {
+    ({ previous, page } = await readPageChanges(request.previousSummaryId, page, contentHash!))
+  } else if (mode === 'page' && page.format === 'text') {
+    // The snapshot keeps the fallback extractor's line breaks for diffing
+    page = { ...page, content: collapseWhitespace(page.content) }
+  }
+
+  const settings = await getConfiguredLLMSettings()
+
+  // Generate summary using LLM (offload to a different approach to avoid service worker issues)
+  const template = findPromptTemplate(appSettings, request.templateId)
+  const prompts = mode === 'discussion'
+    ? discussionPrompts
+    : previous
+      ? createChangesPrompts(previous.summary, new Date(previous.createdAt).toLocaleDateString())
+      : createPagePrompts(template, {
+          url,
+          length: appSettings.summaryLength,
+          language: getLanguageName()
+        })
+  const chain = options.target ? [options.target] : await getSummaryProviderChain(settings)
+  const extractedPage = page
+  const { result: summaryResult, target } = await runWithFallback(
+    chain,
+    async (target, markStarted) => {
+      const meter = await createUsageMeter(target, url, 'summary')
+      const result = await generateSummaryViaFetch(extractedPage, title, target, prompts, {
+        ...options,
+        onToken: options.onToken && ((text) => {
+          markStarted()
+          options.onToken!(text)
+        }),
+        onUsage: meter.record
+      })
+      return { ...result, usage: meter.total }
+    },
+    options.signal
+  )
+  if (!options.target && target.provider !== settings.currentProvider) {
+    console.log(`🔀 Summary written by fallback provider ${getProviderAdapter(target.provider).label}`)
+  }
+  
+  const processingTime = Date.now() - startTime
+
+  // Create summary object
+  const summary: GeneratedSummary = {
+    id: crypto.randomUUID(),
+    url,
+    canonicalUrl: await getPageCanonicalUrl(tabId, url),
+    contentHash,
+    title,
+    summary: summaryResult.summary,
+    sentiment: summaryResult.sentiment,
+    keyThemes: summaryResult.keyThemes,
+    commentCount,
+    wordCount: summaryResult.wordCount,
+    mode,
+    templateId: mode === 'page' ? template.id : undefined,
+    discussion: summaryResult.discussion,
+    changes: summaryResult.changes,
+    previousSummaryId: previous?.id,
+    createdAt: new Date().toISOString(),
+    processingTime,
+    chunkCount: summaryResult.chunkCount,
+    contentTruncated: summaryResult.contentTruncated,
+    metadata: page.metadata,
+    provider: target.provider,
+    model: target.settings.model,
+    usage: summaryResult.usage,
+    // Saved alongside the summary, if it is kept
+    snapshot: contentHash ? snapshot : undefined
+  }
+
+  console.log('✅ Summary generated successfully')
+  return summary
+}
+
+// Swap the page for a diff against the version an earlier summary was written from
+async function readPageChanges(
+  previousSummaryId: string | undefined,
+  page: ExtractedPage,
+  contentHash: string
+): Promise<{ previous: SummaryResult; page: ExtractedPage }> {
+  const previous = previousSummaryId ? await summaryStorage.getSummary(previousSummaryId) : null
+  const before = previous?.contentHash ? await summaryStorage.getSnapshot(previous.contentHash) : null
+  if (!previous || before === null) {
+    throw new Error("The earlier version of this page wasn't saved, so there is nothing to compare against")
+  }
+
+  const diff = previous.contentHash === contentHash ? null : diffContent(before, page.content)
+  if (!diff?.text) {
+    throw new Error('Nothing has changed since the earlier summary')
+  }
+
+  console.log(`🔍 ${diff.added} lines added and ${diff.removed} removed since ${previous.createdAt}`)
+  return { previous, page: { ...page, content: diff.text, format: 'text' } }
+}
+
+// Extracted pages kept so follow-up questions don't re-read the page each time.
+// The worker may be stopped between questions, so a miss just re-extracts.
+const pageCache = new Map<string, ExtractedPage>()
+
+function cachePage(tabId: number, url: string, page: ExtractedPage) {
+  const key = `${tabId}:${url}`
+  pageCache.delete(key)
+  pageCache.set(key, page)
+  // Maps iterate in insertion order, so the first key is the oldest
+  if (pageCache.size > MAX_CACHED_PAGES) {
+    pageCache.delete(pageCache.keys().next().value!)
+  }
+}
+
+async function getCachedPageContent(tabId: number, url: string): Promise<ExtractedPage | null> {
+  const cached = pageCache.get(`${tabId}:${url}`)
+  if (cached) return cached
+
+  const page = await getPageContent(tabId, url)
+  if (page) cachePage(tabId, url, page)
+  return page
+}
+
+async function answerQuestion(request: ChatRequest, onToken: (text: string) => void, signal: AbortSignal): Promise<string> {
+  const { url, title, tabId, summary, question } = request
+  const settings = await getConfiguredLLMSettings()
+  const currentProvider = getCurrentProviderSettings(settings)!
+  const adapter = getProviderAdapter(settings.currentProvider)
+
+  const page = await getCachedPageContent(tabId, url)
+  if (!page?.content) {
+    throw new Error('Could not extract page content')
+  }
+
+  const history = request.history.slice(-MAX_CHAT_HISTORY).map(({ role, content }) => ({ role, content }))
+  const conversationTokens = estimateTokens([summary, question, ...history.map(turn => turn.content)].join('\n'))
+
+  // Keep as much of the page as fits next to the conversation
+  const { chunks, truncated } = planChunks(page.content, {
+    contextWindow: getContextWindow(adapter.id, await findModelOption(adapter.id, currentProvider)),
+    reservedTokens: RESERVED_PROMPT_TOKENS + conversationTokens,
+    maxChunkTokens: MAX_CHAT_CONTEXT_TOKENS,
+    maxChunks: 1
+  })
+
+  console.log(`💬 Answering question about ${url} with ${history.length} earlier turns`)
+  const meter = await createUsageMeter({ provider: adapter.id, settings: currentProvider }, url, 'chat')
+  return streamCompletion(
+    adapter,
+    currentProvider,
+    {
+      system: buildChatSystemPrompt(title, url, summary, chunks[0] ?? '', truncated),
+      history,
+      prompt: question,
+      maxTokens: CHAT_ANSWER_MAX_TOKENS
+    },
+    onToken,
+    signal,
+    meter.record
+  )
+}
+
+async function getPageComments(tabId: number): Promise<CommentData[]> {
+  const [result] = await chrome.scripting.executeScript({
+    target: { tabId },
+    func: extractComments
+  })
+  return result?.result ?? []
+}
+
+// The URL summaries of this page are cached under
+async function getPageCanonicalUrl(tabId: number, url: string): Promise<string> {
+  const canonicalLink = await chrome.scripting
+    .executeScript({ target: { tabId }, func: getCanonicalLink })
+    .then(([result]) => result?.result)
+    .catch(() => null)
+  return resolveCanonicalUrl(url, canonicalLink)
+}
+
+async function getPageContent(tabId: number, url: string): Promise<ExtractedPage | null> {
+  try {
+    const { enabledSites, customSelectors } = await settingsStorage.getSettings()
+
+    // Per-site rules win: the user has told us exactly where the content lives
+    const siteConfig = findSiteConfig(enabledSites, new URL(url).hostname)
+    if (siteConfig) {
+      const siteContent = await extractWithSiteConfig(tabId, siteConfig)
+      if (siteContent) {
+        return siteContent
+      }
+      console.log(`📄 Site rule "${siteConfig.name}" matched nothing, falling back to Readability`)
+    }
+
+    // Prefer Readability + Markdown so headings, lists, tables and code survive
+    const [snapshot] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: capturePageSnapshot
+    })
+
+    if (snapshot?.result) {
+      try {
+        const article = await parseArticleOffscreen(snapshot.result)
+        if (article) {
+          return article
+        }
+        console.log('📄 Readability found no article, falling back to selectors')
+      } catch (error) {
+        console.warn('Readability extraction failed, falling back to selectors:', error)
+      }
+    }
+
     // Inject content script to get page content using the same pattern as vibe-sum
     const results = await chrome.scripting.executeScript({
       target: { tabId },
-      func: extractPageContent
+      func: extractPageContent,
+      args: [customSelectors]
     })
 
     if (results && results[0] && results[0].result) {
-      return results[0].result
+      return {
+        content: results[0].result,
+        format: 'text',
+        metadata: { language: snapshot?.result?.language || undefined }
+      }
     }
 
     return null
@@ -102,13 +1030,50 @@ async function getPageContent(tabId: number): Promise<string | null> {
   }
 }
 
+async function extractWithSiteConfig(tabId: number, siteConfig: SiteConfig): Promise<ExtractedPage | null> {
+  try {
+    const [snapshot] = await chrome.scripting.executeScript({
+      target: { tabId },
+      func: captureSelectorSnapshot,
+      args: [siteConfig.selectors]
+    })
+    if (!snapshot?.result) return null
+
+    const content = await convertHtmlOffscreen(snapshot.result.html)
+    if (!content) return null
+
+    return {
+      content,
+      format: 'markdown',
+      metadata: {
+        siteName: siteConfig.name,
+        language: snapshot.result.language || undefined
+      }
+    }
+  } catch (error) {
+    console.warn(`Site rule "${siteConfig.name}" failed:`, error)
+    return null
+  }
+}
+
+// Function that runs in the page context to capture the raw document for Readability
+function capturePageSnapshot(): PageSnapshot {
+  return {
+    html: document.documentElement.outerHTML,
+    url: location.href,
+    language: document.documentElement.lang || ''
+  }
+}
+
 // Function that runs in the page context to extract content - following vibe-sum pattern
-function extractPageContent(): string {
+function extractPageContent(customSelectors: string[] = []): string {
   try {
     console.log('📄 Extracting page content...')
     
     // Similar to vibe-sum's extractPageContext but focused on getting clean text content
+    // User-defined selectors are tried before the generic ones
     const contentSources = [
+      ...customSelectors,
       'main',
       '[role="main"]', 
       'article',
@@ -133,6 +1098,10 @@ function extractPageContent(): string {
           // Remove noise elements
           const noise = clone.querySelectorAll('script, style, nav, header, footer, aside, .advertisement, .ads, .sidebar, .menu, .navigation, [class*="comment"], [id*="comment"]')
           noise.forEach(el => el.remove())
+
+          // textContent runs blocks together; follow each one with a line break
+          clone.querySelectorAll('p, div, li, tr, br, h1, h2, h3, h4, h5, h6, blockquote, pre, section, article')
+            .forEach(el => el.after('\n'))
           
           const textContent = clone.textContent || ''
           if (textContent.trim().length > bestContent.length) {
@@ -147,9 +1116,10 @@ function extractPageContent(): string {
       }
     }
     
-    // Clean up the content
+    // Clean up the content, keeping line breaks so saved versions can be diffed
     const cleanContent = bestContent
-      .replace(/\s+/g, ' ') // Normalize whitespace
+      .replace(/[^\S\n]+/g, ' ') // Normalize spaces within lines
+      .replace(/ ?\n ?/g, '\n') // Trim around line breaks
       .replace(/\n{3,}/g, '\n\n') // Limit consecutive newlines
       .trim()
     
@@ -159,203 +1129,121 @@ function extractPageContent(): string {
   } catch (error) {
     console.error('Error in extractPageContent:', error)
     // Final fallback
-    return document.body?.textContent?.replace(/\s+/g, ' ').trim() || ''
+    return document.body?.innerText?.trim() || ''
   }
 }
 
-async function generateSummaryViaFetch(content: string, title: string, settings: any) {
-  const currentProvider = settings.providers[settings.currentProvider]
-  
-  // Truncate content if too long (keep first ~3000 words to stay within token limits)
-  const words = content.split(/\s+/)
-  const truncatedContent = words.slice(0, 3000).join(' ')
-  const wordCount = words.length
+// Tokens held back from the chunk budget for the prompt template and the reply
+const RESERVED_PROMPT_TOKENS = 2000
+// Upper bound per chunk so very large context windows don't mean very slow, costly calls
+const MAX_CHUNK_TOKENS = 32000
+// Pages longer than this many chunks are cut off and flagged as truncated
+const MAX_CHUNKS = 12
+const CHUNK_NOTES_MAX_TOKENS = 400
+// Extra calls allowed to fix a reply that doesn't match the response schema
+const MAX_REPAIR_ATTEMPTS = 1
+// Page content sent with each follow-up question, and how much of the thread
+const MAX_CHAT_CONTEXT_TOKENS = 24000
+const MAX_CHAT_HISTORY = 20
+const CHAT_ANSWER_MAX_TOKENS = 800
+const MAX_CACHED_PAGES = 5
+// Selected text beyond this is dropped; selections are meant to be short
+const MAX_SELECTION_CHARS = 20000
+const SELECTION_ANSWER_MAX_TOKENS = 600
 
-  const prompt = `Please analyze the following web page content and provide a comprehensive summary.
+async function generateSummaryViaFetch(
+  { content, metadata }: ExtractedPage,
+  title: string,
+  { provider, settings: providerSettings }: ProviderTarget,
+  prompts: PromptSet,
+  { onToken, onProgress, signal, onUsage }: SummarizeOptions = {}
+) {
+  const wordCount = content.split(/\s+/).length
+  const modelOption = await findModelOption(provider, providerSettings)
 
-Title: ${title}
+  // Split long pages into chunks that fit the model's context window
+  const { chunks, truncated } = planChunks(content, {
+    contextWindow: getContextWindow(provider, modelOption),
+    reservedTokens: RESERVED_PROMPT_TOKENS,
+    maxChunkTokens: MAX_CHUNK_TOKENS,
+    maxChunks: MAX_CHUNKS
+  })
 
-Content:
-${truncatedContent}
-
-Please provide your response in the following JSON format:
-{
-  "summary": "A clear, concise summary of the main points and key information from this page (2-3 sentences)",
-  "sentiment": "overall sentiment of the content (positive, negative, neutral, or mixed)",
-  "keyThemes": ["array", "of", "key", "themes", "or", "topics"]
-}
-
-Focus on the main ideas, key facts, and important takeaways. Keep the summary informative but brief.`
+  if (truncated) {
+    console.warn(`✂️ Content exceeds ${MAX_CHUNKS} chunks; the remainder was dropped`)
+  }
 
   try {
-    let apiResponse
+    const adapter = getProviderAdapter(provider)
+    const { responseSchema, maxTokens } = prompts
+    // Without a listener there is nothing to stream to, so let the provider
+    // enforce the schema instead
+    const structured = supportsStructuredOutput(provider, modelOption)
+    const format = structured && !onToken ? 'json' : 'text'
+    let prompt: string
 
-    // Use direct API calls to avoid service worker import issues
-    if (settings.currentProvider === 'anthropic') {
-      apiResponse = await fetch('https://api.anthropic.com/v1/messages', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'X-API-Key': currentProvider.apiKey,
-          'anthropic-version': '2023-06-01',
-          'anthropic-dangerous-direct-browser-access': 'true'
-        },
-        body: JSON.stringify({
-          model: currentProvider.model,
-          max_tokens: 500,
-          temperature: 0.7,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }]
-        })
-      })
-      
-      if (!apiResponse.ok) {
-        throw new Error(`Anthropic API error: ${apiResponse.status} ${apiResponse.statusText}`)
+    if (chunks.length <= 1) {
+      prompt = prompts.summary(title, metadata, chunks[0] ?? '', format)
+    } else {
+      // Map: take notes on each chunk in turn, then reduce the notes into one summary
+      console.log(`🧩 Summarizing ${chunks.length} chunks`)
+      const partials: string[] = []
+      for (const [index, chunk] of chunks.entries()) {
+        onProgress?.(index + 1, chunks.length)
+        partials.push(await complete(
+          adapter,
+          providerSettings,
+          { prompt: prompts.chunk(title, chunk, index, chunks.length), maxTokens: CHUNK_NOTES_MAX_TOKENS },
+          signal,
+          onUsage
+        ))
       }
-      
-      const data = await apiResponse.json()
-      const text = data.content[0].text
+      prompt = prompts.reduce(title, metadata, partials, format)
+    }
 
-      // Try to parse JSON response
-      try {
-        const parsed = JSON.parse(text)
-        return {
-          ...parsed,
-          wordCount
-        }
-      } catch {
-        return {
-          summary: text,
-          sentiment: 'neutral',
-          keyThemes: [],
-          wordCount
-        }
-      }
-    } else if (settings.currentProvider === 'openai') {
-      apiResponse = await fetch('https://api.openai.com/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${currentProvider.apiKey}`
-        },
-        body: JSON.stringify({
-          model: currentProvider.model,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }],
-          max_tokens: 500,
-          temperature: 0.7
-        })
-      })
-      
-      if (!apiResponse.ok) {
-        throw new Error(`OpenAI API error: ${apiResponse.status} ${apiResponse.statusText}`)
-      }
-      
-      const data = await apiResponse.json()
-      const text = data.choices[0].message.content
+    // Use direct API calls to avoid service worker import issues
+    const text = format === 'json'
+      ? await complete(adapter, providerSettings, { prompt, maxTokens, schema: responseSchema }, signal, onUsage)
+      : await streamCompletion(
+          adapter,
+          providerSettings,
+          { prompt, maxTokens },
+          createSummaryStreamFilter((text) => onToken?.(text)),
+          signal,
+          onUsage
+        )
 
-      try {
-        const parsed = JSON.parse(text)
-        return {
-          ...parsed,
-          wordCount
-        }
-      } catch {
-        return {
-          summary: text,
-          sentiment: 'neutral',
-          keyThemes: [],
-          wordCount
-        }
-      }
-    } else if (settings.currentProvider === 'google') {
-      apiResponse = await fetch(`https://generativelanguage.googleapis.com/v1beta/models/${currentProvider.model}:generateContent?key=${currentProvider.apiKey}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
+    let parsed = parseSummaryResponse(text, responseSchema)
+    let reply = text
+    for (let attempt = 1; !parsed.success && attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+      console.warn(`🔧 Summary reply failed validation (${parsed.errors.join('; ')}), repair attempt ${attempt}`)
+      reply = await complete(
+        adapter,
+        providerSettings,
+        {
+          prompt: buildRepairPrompt(reply, parsed.errors, responseSchema),
+          maxTokens,
+          temperature: 0,
+          schema: structured ? responseSchema : undefined
         },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: prompt
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 500
-          }
-        })
-      })
-      
-      if (!apiResponse.ok) {
-        throw new Error(`Google API error: ${apiResponse.status} ${apiResponse.statusText}`)
-      }
-      
-      const data = await apiResponse.json()
-      const text = data.candidates[0].content.parts[0].text
+        signal,
+        onUsage
+      )
+      parsed = parseSummaryResponse(reply, responseSchema)
+    }
 
-      try {
-        const parsed = JSON.parse(text)
-        return {
-          ...parsed,
-          wordCount
-        }
-      } catch {
-        return {
-          summary: text,
-          sentiment: 'neutral',
-          keyThemes: [],
-          wordCount
-        }
-      }
-    } else if (settings.currentProvider === 'xai') {
-      apiResponse = await fetch('https://api.x.ai/v1/chat/completions', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Authorization': `Bearer ${currentProvider.apiKey}`
-        },
-        body: JSON.stringify({
-          model: currentProvider.model,
-          messages: [{
-            role: 'user',
-            content: prompt
-          }],
-          max_tokens: 500,
-          temperature: 0.7
-        })
-      })
-      
-      if (!apiResponse.ok) {
-        throw new Error(`xAI API error: ${apiResponse.status} ${apiResponse.statusText}`)
-      }
-      
-      const data = await apiResponse.json()
-      const text = data.choices[0].message.content
+    if (!parsed.success) {
+      console.warn('⚠️ Summary reply could not be repaired; using the prose as-is')
+    }
 
-      try {
-        const parsed = JSON.parse(text)
-        return {
-          ...parsed,
-          wordCount
-        }
-      } catch {
-        return {
-          summary: text,
-          sentiment: 'neutral',
-          keyThemes: [],
-          wordCount
-        }
-      }
-    } else {
-      throw new Error('Unsupported provider')
+    return {
+      ...(parsed.success ? parsed.data : parseSummaryText(text)),
+      wordCount,
+      chunkCount: chunks.length,
+      contentTruncated: truncated
     }
   } catch (error) {
     console.error('Error generating summary:', error)
     throw error
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,92 @@
+import React, { useEffect, useState } from "react"
+import { PlusIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { useAppStore } from "../lib/store"
+import { getAutoSummarizeOrigin, isValidAutoSummarizePattern } from "../lib/autoSummarize"
+
+export function AutoSummarizeSettings() {
+  const { settings, updateSettings } = useAppStore()
+  const patterns = settings.autoSummarizePatterns ?? []
+
+  const [newPattern, setNewPattern] = useState("")
+  const [error, setError] = useState<string | null>(null)
+
+  // Suggest the current page's domain
+  useEffect(() => {
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => {
+      if (tab?.url?.startsWith("http")) {
+        setNewPattern(new URL(tab.url).hostname)
+      }
+    })
+  }, [])
+
+  const handleAdd = async () => {
+    const pattern = newPattern.trim().toLowerCase()
+    setError(null)
+    if (!pattern || patterns.includes(pattern)) return
+
+    const origin = getAutoSummarizeOrigin(pattern)
+    if (!isValidAutoSummarizePattern(pattern) || !origin) {
+      setError("Enter a domain, optionally with a path, e.g. example.com/blog/*")
+      return
+    }
+
+    // Reading pages in the background needs access to the site; Chrome only
+    // shows the prompt while the click is being handled
+    if (!(await chrome.permissions.request({ origins: [origin] }))) {
+      setError(`Access to ${pattern} was not allowed`)
+      return
+    }
+
+    await updateSettings({ autoSummarizePatterns: [...patterns, pattern] })
+    setNewPattern("")
+  }
+
+  return (
+    <div className="space-y-2">
+      <label className="flex items-center gap-2 text-sm font-medium">
+        <input
+          type="checkbox"
+          checked={settings.autoSummarize}
+          onChange={(e) => updateSettings({ autoSummarize: e.target.checked })}
+        />
+        Summarize pages automatically
+      </label>
+      <p className="text-xs text-muted-foreground">
+        Pages on these sites are summarized as they load, at most a few per site each hour. The toolbar icon shows ✓
+        when a summary is ready.
+      </p>
+
+      {patterns.map((pattern) => (
+        <div key={pattern} className="flex items-center justify-between gap-2">
+          <code className="text-xs truncate">{pattern}</code>
+          <button
+            className="text-xs text-muted-foreground hover:text-red-600"
+            onClick={() =>
+              updateSettings({ autoSummarizePatterns: patterns.filter((other) => other !== pattern) })
+            }>
+            Remove
+          </button>
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="e.g. news.example.com or example.com/blog/*"
+          value={newPattern}
+          onChange={(e) => setNewPattern(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && handleAdd()}
+          disabled={!settings.autoSummarize}
+          className="h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleAdd} disabled={!settings.autoSummarize}>
+          <PlusIcon className="w-4 h-4" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,281 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { AlertCircle, Check, Copy, Files, Loader2, MinusCircle, RefreshCw, X } from 'lucide-react'
+import { useAppStore } from '../lib/store'
+import { isProviderConfigured } from '../lib/providers'
+import {
+  ALL_SITES_ORIGINS,
+  NO_TAB_GROUP,
+  cancelBatch,
+  clearBatch,
+  getBatchScopeLabel,
+  getBatchState,
+  isBatchRunning,
+  startBatch,
+  subscribeToBatch
+} from '../lib/batch'
+import { copyDigest } from '../lib/export'
+import { getSentimentColor, getSentimentEmoji } from '../lib/utils'
+import type { BatchScope, BatchState, BatchTab, ResearchDigest, SummaryResult } from '../lib/types'
+
+interface BatchSummaryPanelProps {
+  onOpen: (summary: SummaryResult) => void
+}
+
+const COPIED_FEEDBACK_MS = 1500
+
+function describeBatch(batch: BatchState): string | null {
+  const finished = batch.tabs.filter((tab) => tab.summaryId).length
+  switch (batch.status) {
+    case 'summarizing': {
+      const completed = batch.tabs.filter((tab) => tab.status !== 'queued' && tab.status !== 'running').length
+      return `Summarized ${completed} of ${batch.tabs.length} tabs in this ${getBatchScopeLabel(batch.scope)}`
+    }
+    case 'digesting':
+      return 'Writing the research digest...'
+    case 'done':
+      return batch.digest
+        ? `Summarized ${finished} of ${batch.tabs.length} tabs`
+        : 'A digest needs at least two summarized tabs'
+    case 'cancelled':
+      return 'Cancelled'
+    case 'error':
+      return null
+  }
+}
+
+function TabStatusIcon({ status }: { status: BatchTab['status'] }) {
+  switch (status) {
+    case 'queued':
+      return <span className="h-3 w-3 shrink-0 rounded-full border" />
+    case 'running':
+      return <Loader2 className="h-3 w-3 shrink-0 animate-spin text-primary" />
+    case 'done':
+    case 'cached':
+      return <Check className="h-3 w-3 shrink-0 text-green-600" />
+    case 'skipped':
+      return <MinusCircle className="h-3 w-3 shrink-0 text-muted-foreground" />
+    case 'error':
+      return <AlertCircle className="h-3 w-3 shrink-0 text-red-600" />
+  }
+}
+
+// Source numbers as links to the cited tabs' summaries
+function Citations({ sources, digest, onOpenSource }: {
+  sources: number[]
+  digest: ResearchDigest
+  onOpenSource: (summaryId: string) => void
+}) {
+  return (
+    <>
+      {sources.map((source) => (
+        <button
+          key={source}
+          className="text-xs text-primary hover:underline ml-0.5"
+          onClick={() => onOpenSource(digest.sources[source - 1].summaryId)}
+          title={digest.sources[source - 1].title}
+        >
+          [{source}]
+        </button>
+      ))}
+    </>
+  )
+}
+
+function DigestCard({ digest, onOpenSource }: { digest: ResearchDigest; onOpenSource: (summaryId: string) => void }) {
+  const [copied, setCopied] = useState(false)
+
+  const handleCopy = async () => {
+    await copyDigest(digest)
+    setCopied(true)
+    setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS)
+  }
+
+  return (
+    <div className="space-y-3 border-t pt-3">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm flex items-center gap-2">
+          Research Digest
+          <span className={getSentimentColor(digest.sentiment)} title={digest.sentiment}>
+            {getSentimentEmoji(digest.sentiment)}
+          </span>
+        </h4>
+        <Button variant="ghost" size="sm" onClick={handleCopy} title="Copy as Markdown">
+          {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+        </Button>
+      </div>
+
+      <p className="text-sm leading-relaxed text-muted-foreground whitespace-pre-wrap">{digest.summary}</p>
+
+      {digest.crossReferences.length > 0 && (
+        <div>
+          <h4 className="font-medium text-sm mb-2">Across Sources</h4>
+          <ul className="space-y-2 text-sm text-muted-foreground">
+            {digest.crossReferences.map((reference, index) => (
+              <li key={index}>
+                <span className="font-medium text-foreground">{reference.theme}</span>: {reference.insight}
+                <Citations sources={reference.sources} digest={digest} onOpenSource={onOpenSource} />
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {digest.keyThemes.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {digest.keyThemes.map((theme, index) => (
+            <Badge key={index} variant="outline" className="text-xs">
+              {theme}
+            </Badge>
+          ))}
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-medium text-sm mb-2">Sources</h4>
+        <ol className="space-y-1 text-xs">
+          {digest.sources.map((source, index) => (
+            <li key={source.summaryId} className="flex gap-2 min-w-0">
+              <span className="text-muted-foreground">{index + 1}.</span>
+              <button
+                className="truncate text-left text-primary hover:underline"
+                onClick={() => onOpenSource(source.summaryId)}
+                title={source.url}
+              >
+                {source.title}
+              </button>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  )
+}
+
+// Summarize every tab in the window or tab group, then digest them together
+export function BatchSummaryPanel({ onOpen }: BatchSummaryPanelProps) {
+  const { settings, getSummary, loadSummaries } = useAppStore()
+  const [batch, setBatch] = useState<BatchState | null>(null)
+  const [activeTab, setActiveTab] = useState<chrome.tabs.Tab | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    getBatchState().then(setBatch)
+    chrome.tabs.query({ active: true, currentWindow: true }).then(([tab]) => setActiveTab(tab ?? null))
+    return subscribeToBatch(setBatch)
+  }, [])
+
+  // Each finished tab is saved to history as it completes
+  const finishedCount = batch?.tabs.filter((tab) => tab.summaryId).length ?? 0
+  useEffect(() => {
+    if (finishedCount > 0) loadSummaries()
+  }, [finishedCount])
+
+  const running = isBatchRunning(batch)
+
+  const handleStart = async (scope: BatchScope) => {
+    setError(null)
+    // Chrome only shows the prompt while the click is being handled
+    if (!(await chrome.permissions.request({ origins: ALL_SITES_ORIGINS }))) {
+      setError('Summarizing other tabs needs access to the sites they show')
+      return
+    }
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      await startBatch(scope, tab.id!)
+    } catch (error) {
+      console.error('Batch error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to start summarizing tabs')
+    }
+  }
+
+  const handleOpenSource = async (summaryId: string) => {
+    const summary = await getSummary(summaryId)
+    if (summary) onOpen(summary)
+  }
+
+  const canStart = !running && !!activeTab?.id && !!settings.llm && isProviderConfigured(settings.llm)
+
+  return (
+    <Card>
+      <CardContent className="p-3 space-y-3">
+        <div className="flex items-center gap-2">
+          <Files className="h-4 w-4 text-muted-foreground" />
+          <h4 className="font-medium text-sm flex-1">Summarize Tabs</h4>
+          {running ? (
+            <Button variant="ghost" size="sm" onClick={() => cancelBatch()}>
+              Cancel
+            </Button>
+          ) : batch && (
+            <Button variant="ghost" size="sm" onClick={() => clearBatch()} title="Dismiss">
+              <X className="h-3 w-3" />
+            </Button>
+          )}
+        </div>
+
+        {!batch && (
+          <p className="text-xs text-muted-foreground">
+            Summarize every open page, save each to history, and combine them into a digest that cites each tab.
+          </p>
+        )}
+
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" className="flex-1" onClick={() => handleStart('window')} disabled={!canStart}>
+            This window
+          </Button>
+          <Button
+            variant="outline"
+            size="sm"
+            className="flex-1"
+            onClick={() => handleStart('group')}
+            disabled={!canStart || activeTab?.groupId === NO_TAB_GROUP}
+            title={activeTab?.groupId === NO_TAB_GROUP ? "This tab isn't in a tab group" : undefined}
+          >
+            This tab group
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        {batch && (
+          <>
+            {batch.status === 'error' ? (
+              <p className="text-xs text-red-600">{batch.error}</p>
+            ) : (
+              <p className="text-xs text-muted-foreground flex items-center gap-1">
+                {batch.status === 'digesting' && <RefreshCw className="h-3 w-3 animate-spin" />}
+                {describeBatch(batch)}
+              </p>
+            )}
+
+            <ul className="space-y-1">
+              {batch.tabs.map((tab) => (
+                <li key={tab.tabId} className="flex items-center gap-2 text-xs min-w-0">
+                  <TabStatusIcon status={tab.status} />
+                  {tab.summaryId ? (
+                    <button
+                      className="truncate text-left hover:underline"
+                      onClick={() => handleOpenSource(tab.summaryId!)}
+                      title={tab.url}
+                    >
+                      {tab.title}
+                    </button>
+                  ) : (
+                    <span className="truncate" title={tab.error ?? tab.url}>
+                      {tab.title}
+                    </span>
+                  )}
+                  {tab.status === 'cached' && <span className="text-muted-foreground shrink-0">saved</span>}
+                  {tab.error && <span className="ml-auto shrink-0 text-muted-foreground truncate max-w-[40%]">{tab.error}</span>}
+                </li>
+              ))}
+            </ul>
+
+            {batch.digest && <DigestCard digest={batch.digest} onOpenSource={handleOpenSource} />}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,140 @@
+import React, { useEffect, useRef, useState } from 'react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Send, Trash2 } from 'lucide-react'
+import { useAppStore } from '../lib/store'
+import { streamChatReply } from '../lib/chat'
+import type { ChatMessage, SummaryResult } from '../lib/types'
+
+interface ChatPanelProps {
+  summary: SummaryResult
+  // Questions need the page open in the current tab to read its content
+  canAsk: boolean
+}
+
+function MessageBubble({ role, content }: Pick<ChatMessage, 'role' | 'content'>) {
+  return (
+    <div className={`flex ${role === 'user' ? 'justify-end' : 'justify-start'}`}>
+      <p
+        className={`max-w-[85%] rounded-md px-3 py-2 text-sm whitespace-pre-wrap ${
+          role === 'user' ? 'bg-primary text-primary-foreground' : 'bg-muted text-foreground'
+        }`}
+      >
+        {content}
+      </p>
+    </div>
+  )
+}
+
+export function ChatPanel({ summary, canAsk }: ChatPanelProps) {
+  const { saveChat } = useAppStore()
+
+  const [question, setQuestion] = useState('')
+  const [pendingQuestion, setPendingQuestion] = useState<ChatMessage | null>(null)
+  const [answer, setAnswer] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+
+  // Cancel any in-flight answer when the popup closes
+  useEffect(() => () => portRef.current?.disconnect(), [])
+
+  const messages = summary.chat ?? []
+
+  const handleAsk = async () => {
+    const text = question.trim()
+    if (!text || pendingQuestion) return
+
+    const userMessage: ChatMessage = { role: 'user', content: text, createdAt: new Date().toISOString() }
+    setPendingQuestion(userMessage)
+    setQuestion('')
+    setAnswer('')
+    setError(null)
+
+    try {
+      const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
+      const tabId = tabs[0]?.id
+      if (!tabId) {
+        throw new Error('Unable to get current tab')
+      }
+
+      const reply = await streamChatReply(
+        {
+          url: summary.url,
+          title: summary.title,
+          tabId,
+          summary: summary.summary,
+          history: messages,
+          question: text
+        },
+        (token) => setAnswer((previous) => previous + token),
+        (port) => { portRef.current = port }
+      )
+
+      await saveChat(summary.id, [...messages, userMessage, reply])
+    } catch (error) {
+      console.error('Chat error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to answer question')
+      // Give the question back so it can be retried
+      setQuestion(text)
+    } finally {
+      portRef.current = null
+      setPendingQuestion(null)
+      setAnswer('')
+    }
+  }
+
+  if (!canAsk && messages.length === 0) {
+    return null
+  }
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border">
+      <div className="flex items-center justify-between">
+        <h4 className="font-medium text-sm">Ask about this page</h4>
+        {messages.length > 0 && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => saveChat(summary.id, [])}
+            disabled={!!pendingQuestion}
+            title="Clear conversation"
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      {messages.map((message, index) => (
+        <MessageBubble key={index} role={message.role} content={message.content} />
+      ))}
+
+      {pendingQuestion && (
+        <>
+          <MessageBubble role="user" content={pendingQuestion.content} />
+          <MessageBubble role="assistant" content={answer || '...'} />
+        </>
+      )}
+
+      {error && <p className="text-xs text-red-600">{error}</p>}
+
+      {canAsk ? (
+        <div className="flex gap-2">
+          <Input
+            placeholder="Ask a follow-up question"
+            value={question}
+            onChange={(e) => setQuestion(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAsk()}
+            disabled={!!pendingQuestion}
+          />
+          <Button onClick={handleAsk} disabled={!question.trim() || !!pendingQuestion}>
+            <Send className="h-4 w-4" />
+          </Button>
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          Visit this page to continue the conversation
+        </p>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,192 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { ArrowLeft, Check, Clock, Coins, RefreshCw } from 'lucide-react'
+import { useAppStore } from '../lib/store'
+import { getProviderAdapter } from '../lib/providers'
+import {
+  MAX_COMPARED_PROVIDERS,
+  compareSummaries,
+  getComparableProviders,
+  normalizeTheme,
+  requestComparison,
+  type ComparisonEntry
+} from '../lib/compare'
+import { formatCost } from '../lib/usage'
+import { getSentimentColor, getSentimentEmoji } from '../lib/utils'
+import type { GeneratedSummary, LLMProvider } from '../lib/types'
+
+interface ComparisonViewProps {
+  url: string
+  title: string
+  templateId?: string
+  onKeep: (summary: GeneratedSummary) => void
+  onClose: () => void
+}
+
+function ComparisonColumn({
+  entry,
+  sharedThemes,
+  onKeep
+}: {
+  entry: ComparisonEntry
+  sharedThemes: Set<string>
+  onKeep: (summary: GeneratedSummary) => void
+}) {
+  const adapter = getProviderAdapter(entry.provider)
+  const { summary } = entry
+
+  return (
+    <div className="min-w-[160px] flex-1 rounded-md border p-2 space-y-2">
+      <div>
+        <p className="text-sm font-medium">{adapter.label}</p>
+        {summary?.model && <p className="text-xs text-muted-foreground truncate">{summary.model}</p>}
+      </div>
+
+      {!summary ? (
+        <p className="text-xs text-red-600">{entry.error}</p>
+      ) : (
+        <>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="outline" className="gap-1 text-xs">
+              <Clock className="h-3 w-3" />
+              {(summary.processingTime / 1000).toFixed(1)}s
+            </Badge>
+            {summary.usage && (
+              <Badge
+                variant="outline"
+                className="gap-1 text-xs"
+                title={`${summary.usage.inputTokens} input / ${summary.usage.outputTokens} output tokens${summary.usage.estimated ? ' (estimated)' : ''}`}
+              >
+                <Coins className="h-3 w-3" />
+                {summary.usage.cost !== null
+                  ? formatCost(summary.usage.cost)
+                  : `${summary.usage.inputTokens + summary.usage.outputTokens} tokens`}
+              </Badge>
+            )}
+            <Badge variant="outline" className={`gap-1 text-xs ${getSentimentColor(summary.sentiment)}`}>
+              <span>{getSentimentEmoji(summary.sentiment)}</span>
+              {summary.sentiment}
+            </Badge>
+          </div>
+
+          <p className="text-xs leading-relaxed text-muted-foreground whitespace-pre-wrap">{summary.summary}</p>
+
+          {summary.keyThemes.length > 0 && (
+            <div className="flex flex-wrap gap-1">
+              {summary.keyThemes.map((theme, index) => (
+                <Badge
+                  key={index}
+                  variant={sharedThemes.has(normalizeTheme(theme)) ? 'secondary' : 'outline'}
+                  className="text-xs"
+                >
+                  {theme}
+                </Badge>
+              ))}
+            </div>
+          )}
+
+          <Button variant="outline" size="sm" className="w-full" onClick={() => onKeep(summary)}>
+            <Check className="h-3 w-3 mr-1" />
+            Keep this one
+          </Button>
+        </>
+      )}
+    </div>
+  )
+}
+
+// Run the page past several providers at once and keep the best summary
+export function ComparisonView({ url, title, templateId, onKeep, onClose }: ComparisonViewProps) {
+  const { settings } = useAppStore()
+  const comparable = getComparableProviders(settings.llm)
+
+  const [selected, setSelected] = useState<LLMProvider[]>(() => comparable.slice(0, MAX_COMPARED_PROVIDERS))
+  const [entries, setEntries] = useState<ComparisonEntry[] | null>(null)
+  const [isComparing, setIsComparing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const summaries = (entries ?? []).flatMap((entry) => entry.summary ? [entry.summary] : [])
+  const agreement = summaries.length >= 2 ? compareSummaries(summaries) : null
+  const sharedThemes = new Set(agreement?.sharedThemes.map(normalizeTheme))
+
+  const toggleProvider = (provider: LLMProvider) => {
+    setSelected((current) => current.includes(provider)
+      ? current.filter((other) => other !== provider)
+      : [...current, provider].slice(-MAX_COMPARED_PROVIDERS))
+  }
+
+  const handleCompare = async () => {
+    setError(null)
+    setEntries(null)
+    setIsComparing(true)
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      if (!tab?.id) {
+        throw new Error('Unable to get current tab')
+      }
+      setEntries(await requestComparison({ url, title, tabId: tab.id, templateId, providers: selected }))
+    } catch (error) {
+      console.error('Comparison error:', error)
+      setError(error instanceof Error ? error.message : 'Failed to compare providers')
+    } finally {
+      setIsComparing(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2">
+        <Button variant="ghost" size="sm" onClick={onClose} title="Back to summary">
+          <ArrowLeft className="h-4 w-4" />
+        </Button>
+        <h3 className="text-base font-medium flex-1">Compare Providers</h3>
+      </div>
+
+      <div className="space-y-2">
+        <p className="text-xs text-muted-foreground">
+          Summarize this page with up to {MAX_COMPARED_PROVIDERS} providers at once. Each call counts toward your usage.
+        </p>
+        <div className="flex flex-wrap gap-3">
+          {comparable.map((provider) => (
+            <label key={provider} className="flex items-center gap-1 text-sm">
+              <input
+                type="checkbox"
+                checked={selected.includes(provider)}
+                onChange={() => toggleProvider(provider)}
+                disabled={isComparing}
+              />
+              {getProviderAdapter(provider).label}
+            </label>
+          ))}
+        </div>
+        <Button size="sm" onClick={handleCompare} disabled={isComparing || selected.length < 2}>
+          {isComparing && <RefreshCw className="h-3 w-3 mr-1 animate-spin" />}
+          {isComparing ? 'Comparing...' : 'Compare'}
+        </Button>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+
+      {agreement && (
+        <div className="rounded-md bg-muted p-2 space-y-1 text-xs">
+          <p>
+            <span className="font-medium">Sentiment:</span>{' '}
+            {agreement.sentimentAgrees ? `all ${summaries[0].sentiment}` : 'the providers disagree'}
+          </p>
+          <p>
+            <span className="font-medium">Theme overlap:</span> {Math.round(agreement.themeOverlap * 100)}%
+            {agreement.sharedThemes.length > 0 && ` (shared: ${agreement.sharedThemes.join(', ')})`}
+          </p>
+        </div>
+      )}
+
+      {entries && (
+        <div className="flex gap-2 overflow-x-auto">
+          {entries.map((entry) => (
+            <ComparisonColumn key={entry.provider} entry={entry} sharedThemes={sharedThemes} onKeep={onKeep} />
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,102 @@
+import React, { useRef, useState } from "react"
+import { ArrowPathIcon, ServerIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
+import { refreshModelCatalog, requestHostPermission } from "../lib/providers"
+import type { ProviderSettings } from "../lib/types"
+
+interface CustomServerSettingsProps {
+  settings: ProviderSettings
+  onChange: (updates: Partial<ProviderSettings>) => void
+}
+
+// One "Name: value" pair per line
+function parseHeaders(text: string): Record<string, string> {
+  const headers: Record<string, string> = {}
+  for (const line of text.split("\n")) {
+    const separator = line.indexOf(":")
+    if (separator <= 0) continue
+    const name = line.slice(0, separator).trim()
+    if (name) headers[name] = line.slice(separator + 1).trim()
+  }
+  return headers
+}
+
+function formatHeaders(headers: Record<string, string> = {}): string {
+  return Object.entries(headers)
+    .map(([name, value]) => `${name}: ${value}`)
+    .join("\n")
+}
+
+export function CustomServerSettings({ settings, onChange }: CustomServerSettingsProps) {
+  const baseUrlRef = useRef<HTMLInputElement>(null)
+  const [status, setStatus] = useState<{ message: string; error: boolean } | null>(null)
+  const [isConnecting, setIsConnecting] = useState(false)
+
+  // Grant access to the server, then load its models
+  const handleConnect = async () => {
+    const baseUrl = baseUrlRef.current?.value.trim() ?? ""
+    setStatus(null)
+    setIsConnecting(true)
+    try {
+      // Chrome only shows the permission prompt while the click is being handled
+      const granted = requestHostPermission(baseUrl)
+      onChange({ baseUrl })
+      if (!(await granted)) {
+        throw new Error("Access to the server was not allowed")
+      }
+
+      const models = await refreshModelCatalog("custom", { ...settings, baseUrl }, true)
+      if (!models.some((model) => model.id === settings.model)) {
+        onChange({ baseUrl, model: models[0]?.id ?? "" })
+      }
+      setStatus({ message: `Found ${models.length} models`, error: false })
+    } catch (error) {
+      setStatus({
+        message: error instanceof Error ? error.message : "Could not reach the server",
+        error: true
+      })
+    } finally {
+      setIsConnecting(false)
+    }
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="baseUrl">Server URL</Label>
+      <div className="flex gap-2">
+        {/* Uncontrolled so typing doesn't trigger a save and key check per keystroke */}
+        <Input
+          id="baseUrl"
+          ref={baseUrlRef}
+          placeholder="http://localhost:11434"
+          defaultValue={settings.baseUrl ?? ""}
+          onBlur={(e) => e.target.value.trim() !== settings.baseUrl && onChange({ baseUrl: e.target.value.trim() })}
+        />
+        <Button variant="outline" onClick={handleConnect} disabled={isConnecting} title="Allow access and load models">
+          {isConnecting ? <ArrowPathIcon className="w-4 h-4 animate-spin" /> : <ServerIcon className="w-4 h-4" />}
+        </Button>
+      </div>
+      {status && (
+        <p className={`text-xs ${status.error ? "text-red-600" : "text-green-600"}`}>{status.message}</p>
+      )}
+      <p className="text-xs text-muted-foreground">
+        Ollama, LM Studio, vLLM or any server with an OpenAI-compatible /v1 API.
+      </p>
+
+      <Label htmlFor="customHeaders" className="text-xs">
+        Extra headers (optional)
+      </Label>
+      <Textarea
+        id="customHeaders"
+        placeholder="X-Api-Version: 2"
+        defaultValue={formatHeaders(settings.headers)}
+        onBlur={(e) => onChange({ headers: parseHeaders(e.target.value) })}
+        className="min-h-[60px] text-xs font-mono"
+      />
+    </div>
+  )
+}
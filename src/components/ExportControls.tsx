@@ -0,0 +1,77 @@
+import React, { useState } from 'react'
+import { Button } from './ui/button'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/select'
+import { Check, Copy, Download } from 'lucide-react'
+import { EXPORT_FORMATS, copySummary, downloadSummaries, type ExportFormat } from '../lib/export'
+import type { SummaryResult } from '../lib/types'
+
+interface ExportControlsProps {
+  summaries: SummaryResult[]
+}
+
+const COPIED_FEEDBACK_MS = 1500
+
+// Download the given summaries, or copy a single one, in the chosen format
+export function ExportControls({ summaries }: ExportControlsProps) {
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const [copied, setCopied] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const run = async (action: () => Promise<void>) => {
+    setError(null)
+    try {
+      await action()
+    } catch (error) {
+      console.error('Export error:', error)
+      setError(error instanceof Error ? error.message : 'Export failed')
+    }
+  }
+
+  const handleCopy = () =>
+    run(async () => {
+      await copySummary(summaries[0], format)
+      setCopied(true)
+      setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS)
+    })
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <Select value={format} onValueChange={(value: ExportFormat) => setFormat(value)}>
+          <SelectTrigger className="h-8 flex-1 text-xs" title="Export format">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {EXPORT_FORMATS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {summaries.length === 1 && (
+          <Button variant="outline" size="sm" className="h-8" onClick={handleCopy} title="Copy to clipboard">
+            {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
+          </Button>
+        )}
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8"
+          onClick={() => run(() => downloadSummaries(summaries, format))}
+          disabled={summaries.length === 0}
+          title={summaries.length === 1 ? 'Download' : `Download ${summaries.length} summaries`}
+        >
+          <Download className="h-3 w-3" />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
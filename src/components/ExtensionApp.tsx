@@ -0,0 +1,378 @@
+import React, { useEffect, useState } from "react"
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "./ui/tabs"
+import { Button } from "./ui/button"
+import { RefreshCw, MessageSquare, Settings, Clock, PanelRight, Pin, PinOff, BarChart3 } from "lucide-react"
+import { useAppStore } from "../lib/store"
+import { SummaryView, type RerunRequest } from "./SummaryView"
+import { SettingsTab } from "./SettingsTab"
+import { HistoryView } from "./HistoryView"
+import { UsageView } from "./UsageView"
+import { SelectionResultCard } from "./SelectionResultCard"
+import { PageAccessCard } from "./PageAccessCard"
+import { getCurrentProviderSettings, isProviderConfigured, validateProviderKey } from "../lib/providers"
+import { isSummaryOfPage, requestCanonicalUrl } from "../lib/cacheKeys"
+import type { LLMSettings, SummaryResult, Theme } from "../lib/types"
+
+interface ExtensionAppProps {
+  // Size of the surface: the popup is fixed, the side panel fills its frame
+  className: string
+  // Side panel only: follow the active tab and allow pinning a summary
+  followActiveTab?: boolean
+}
+
+interface ActivePage {
+  url: string | null
+  title: string | null
+  // From the page's <link rel="canonical">, so summaries saved under another
+  // URL for the same page are found
+  canonicalUrl: string | null
+}
+
+async function getActivePage(): Promise<ActivePage> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  const url = tab?.url ?? null
+  return {
+    url,
+    title: tab?.title ?? null,
+    canonicalUrl: tab?.id && url ? await requestCanonicalUrl(tab.id, url) : null
+  }
+}
+
+// The popup and the side panel share everything but their frame
+export function ExtensionApp({ className, followActiveTab = false }: ExtensionAppProps) {
+  const {
+    currentSummary,
+    isGenerating,
+    settings,
+    updateSettings,
+    updateLLMSettings,
+    loadSettings,
+    subscribeToSettings,
+    vaultStatus,
+    loadVaultStatus,
+    loadBudgetStatus,
+    subscribeToUsage,
+    setCurrentSummary,
+    getSummaryByUrl,
+    loadSummaries
+  } = useAppStore()
+  
+  const [currentTab, setCurrentTab] = useState("summary")
+  const [activePage, setActivePage] = useState<ActivePage>({ url: null, title: null, canonicalUrl: null })
+  const [pinned, setPinned] = useState(false)
+  const [rerunRequest, setRerunRequest] = useState<RerunRequest | null>(null)
+  const [apiKeyValid, setApiKeyValid] = useState<boolean | null>(null)
+  const [isValidatingApiKey, setIsValidatingApiKey] = useState(false)
+
+  const llmSettings = settings.llm
+  const theme = settings.theme
+
+  // Save provider settings; other open pages and the background worker pick them up
+  const saveSettings = async (newSettings: LLMSettings) => {
+    console.log("💾 saveSettings called", { provider: newSettings.currentProvider })
+    
+    try {
+      await updateLLMSettings(newSettings)
+      console.log(`⚙️ Settings saved: ${newSettings.currentProvider}`)
+      
+      // Validate API key when settings change (force validation since user changed settings)
+      const currentProvider = getCurrentProviderSettings(newSettings)
+      console.log("🔧 About to validate after settings change", { 
+        provider: newSettings.currentProvider,
+        hasApiKey: !!currentProvider?.apiKey,
+        hasModel: !!currentProvider?.model 
+      })
+      
+      if (isProviderConfigured(newSettings)) {
+        console.log("✅ Conditions met, calling validateApiKey")
+        await validateApiKey(newSettings, true)
+      } else {
+        console.log("❌ Conditions not met, setting apiKeyValid to null")
+        setApiKeyValid(null)
+      }
+    } catch (error) {
+      console.error("Error saving settings:", error)
+    }
+  }
+
+  // Validate API key
+  const validateApiKey = async (settings: LLMSettings = llmSettings, forceValidation = false) => {
+    console.log("🔍 validateApiKey called", { provider: settings.currentProvider, forceValidation })
+    
+    const currentProvider = getCurrentProviderSettings(settings)
+    
+    if (!settings.currentProvider || !currentProvider || !isProviderConfigured(settings)) {
+      console.log("❌ Validation failed - missing provider, key, model or server", { 
+        provider: settings.currentProvider, 
+        hasApiKey: !!currentProvider?.apiKey,
+        hasModel: !!currentProvider?.model,
+        currentProvider: currentProvider
+      })
+      setApiKeyValid(null)
+      return false
+    }
+    
+    console.log("✅ Validation preconditions passed, continuing...")
+
+    // Check if we have cached validation result (valid for 5 minutes)
+    if (!forceValidation && currentProvider.apiKeyValid !== undefined && currentProvider.lastValidated) {
+      const lastValidatedTime = new Date(currentProvider.lastValidated).getTime()
+      const now = new Date().getTime()
+      const fiveMinutesInMs = 5 * 60 * 1000
+      
+      if (now - lastValidatedTime < fiveMinutesInMs) {
+        console.log(`💾 Using cached validation result for ${settings.currentProvider}: ${currentProvider.apiKeyValid}`)
+        setApiKeyValid(currentProvider.apiKeyValid)
+        return currentProvider.apiKeyValid
+      }
+    }
+
+    setIsValidatingApiKey(true)
+    console.log(`🔍 Validating ${settings.currentProvider} API key...`)
+
+    try {
+      // Test with a simple prompt
+      await validateProviderKey(settings.currentProvider, currentProvider)
+
+      setApiKeyValid(true)
+      console.log(`✅ API key validation successful`)
+      
+      // Cache the validation result
+      const updatedSettings = {
+        ...settings,
+        providers: {
+          ...settings.providers,
+          [settings.currentProvider]: {
+            ...currentProvider,
+            apiKeyValid: true,
+            lastValidated: new Date().toISOString()
+          }
+        }
+      }
+      await updateLLMSettings(updatedSettings)
+      
+      return true
+    } catch (error) {
+      setApiKeyValid(false)
+      console.log(`❌ API key validation failed for ${settings.currentProvider}`)
+      console.log(`❌ Error message: ${error instanceof Error ? error.message : error}`)
+      
+      // Cache the validation failure
+      const updatedSettings = {
+        ...settings,
+        providers: {
+          ...settings.providers,
+          [settings.currentProvider]: {
+            ...currentProvider,
+            apiKeyValid: false,
+            lastValidated: new Date().toISOString()
+          }
+        }
+      }
+      await updateLLMSettings(updatedSettings)
+      
+      return false
+    } finally {
+      setIsValidatingApiKey(false)
+    }
+  }
+
+  const saveTheme = async (newTheme: Theme) => {
+    try {
+      await updateSettings({ theme: newTheme })
+      console.log(`🎨 Theme saved: ${newTheme}`)
+    } catch (error) {
+      console.error("Error saving theme:", error)
+    }
+  }
+
+  const currentUrl = activePage.url
+
+  useEffect(() => {
+    loadSettings().then(loadBudgetStatus)
+    loadVaultStatus()
+    const unsubscribeFromSettings = subscribeToSettings()
+    const unsubscribeFromUsage = subscribeToUsage()
+    return () => {
+      unsubscribeFromSettings()
+      unsubscribeFromUsage()
+    }
+  }, [])
+
+  // Checking the status once the unlock expires locks the vault
+  useEffect(() => {
+    if (!vaultStatus?.expiresAt) return
+    const timeout = setTimeout(loadVaultStatus, Math.max(vaultStatus.expiresAt - Date.now(), 0))
+    return () => clearTimeout(timeout)
+  }, [vaultStatus?.expiresAt])
+
+  // Track the page in the active tab; the side panel keeps following it
+  useEffect(() => {
+    const updateActivePage = async () => setActivePage(await getActivePage())
+    updateActivePage()
+    if (!followActiveTab) return
+
+    const handleUpdated = (_tabId: number, changeInfo: chrome.tabs.TabChangeInfo, tab: chrome.tabs.Tab) => {
+      if (tab.active && (changeInfo.url || changeInfo.title)) updateActivePage()
+    }
+
+    chrome.tabs.onActivated.addListener(updateActivePage)
+    chrome.tabs.onUpdated.addListener(handleUpdated)
+    return () => {
+      chrome.tabs.onActivated.removeListener(updateActivePage)
+      chrome.tabs.onUpdated.removeListener(handleUpdated)
+    }
+  }, [followActiveTab])
+
+  // Show the saved summary for the page, unless one is pinned
+  useEffect(() => {
+    if (!currentUrl || pinned) return
+
+    let cancelled = false
+    getSummaryByUrl(currentUrl, activePage.canonicalUrl ?? undefined).then((existingSummary) => {
+      if (!cancelled) setCurrentSummary(existingSummary)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [currentUrl, activePage.canonicalUrl, pinned])
+
+  // Pick up summaries the background worker writes for allowlisted pages
+  useEffect(() => {
+    const handleMessage = (message: { action?: string; summary?: SummaryResult }) => {
+      if (message.action !== "summaryReady" || !message.summary) return
+      loadSummaries()
+      if (currentUrl && isSummaryOfPage(message.summary, currentUrl, activePage.canonicalUrl) && !pinned && !isGenerating) {
+        setCurrentSummary(message.summary)
+      }
+    }
+
+    chrome.runtime.onMessage.addListener(handleMessage)
+    return () => chrome.runtime.onMessage.removeListener(handleMessage)
+  }, [currentUrl, activePage.canonicalUrl, pinned, isGenerating])
+
+  const handleRefresh = async () => {
+    if (currentUrl) {
+      // Clear current summary to force regeneration
+      setCurrentSummary(null)
+    }
+  }
+
+  const handleOpenSummary = (summary: SummaryResult) => {
+    setCurrentSummary(summary)
+    setCurrentTab("summary")
+  }
+
+  const handleOpenSidePanel = async () => {
+    const currentWindow = await chrome.windows.getCurrent()
+    await chrome.sidePanel.open({ windowId: currentWindow.id })
+    window.close()
+  }
+
+  const handleRerunSummary = (summary: SummaryResult, tabId?: number) => {
+    setCurrentTab("summary")
+    setRerunRequest({ summary, tabId })
+  }
+
+  return (
+    <div className={`${className} bg-background text-foreground ${theme}`}>
+      <div className="p-4 border-b">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-2">
+            <MessageSquare className="h-5 w-5 text-primary" />
+            <h1 className="font-semibold text-lg">Chrome LLM Starter</h1>
+          </div>
+          <div className="flex items-center">
+            {followActiveTab && currentSummary && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setPinned(!pinned)}
+                title={pinned ? "Unpin summary" : "Keep this summary while browsing"}
+              >
+                {pinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+              </Button>
+            )}
+            {currentSummary && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleRefresh}
+                disabled={isGenerating}
+              >
+                <RefreshCw className={`h-4 w-4 ${isGenerating ? 'animate-spin' : ''}`} />
+              </Button>
+            )}
+            {!followActiveTab && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleOpenSidePanel}
+                title="Open in side panel"
+              >
+                <PanelRight className="h-4 w-4" />
+              </Button>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <Tabs value={currentTab} onValueChange={setCurrentTab} className="flex-1">
+        <TabsList className="grid w-full grid-cols-4 mx-4 mt-4">
+          <TabsTrigger value="summary">Summary</TabsTrigger>
+          <TabsTrigger value="history">
+            <Clock className="h-4 w-4 mr-2" />
+            History
+          </TabsTrigger>
+          <TabsTrigger value="usage">
+            <BarChart3 className="h-4 w-4 mr-2" />
+            Usage
+          </TabsTrigger>
+          <TabsTrigger value="settings">
+            <Settings className="h-4 w-4 mr-2" />
+            Settings
+          </TabsTrigger>
+        </TabsList>
+        
+        <div className="p-4 flex-1 overflow-auto">
+          {/* Kept mounted so switching tabs doesn't cancel a summary in progress */}
+          <TabsContent value="summary" forceMount className="mt-0 data-[state=inactive]:hidden">
+            {followActiveTab && <SelectionResultCard />}
+            {followActiveTab && <PageAccessCard url={currentUrl} />}
+            <SummaryView 
+              currentUrl={currentUrl}
+              currentTitle={activePage.title}
+              currentCanonicalUrl={activePage.canonicalUrl}
+              apiKeyValid={getCurrentProviderSettings(llmSettings)?.apiKeyValid ?? apiKeyValid}
+              rerunRequest={rerunRequest}
+            />
+          </TabsContent>
+          
+          <TabsContent value="history" className="mt-0">
+            <HistoryView
+              currentUrl={currentUrl}
+              currentCanonicalUrl={activePage.canonicalUrl}
+              onOpen={handleOpenSummary}
+              onRerun={handleRerunSummary}
+            />
+          </TabsContent>
+          
+          <TabsContent value="usage" className="mt-0">
+            <UsageView />
+          </TabsContent>
+          
+          <TabsContent value="settings" className="mt-0">
+            <SettingsTab 
+              llmSettings={llmSettings}
+              onSaveSettings={saveSettings}
+              apiKeyValid={getCurrentProviderSettings(llmSettings)?.apiKeyValid ?? apiKeyValid}
+              isValidatingApiKey={isValidatingApiKey}
+              theme={theme}
+              onThemeChange={saveTheme}
+            />
+          </TabsContent>
+        </div>
+      </Tabs>
+    </div>
+  )
+}
@@ -0,0 +1,91 @@
+import React from "react"
+import { ArrowDownIcon, ArrowUpIcon, XMarkIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Label } from "./ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "./ui/select"
+import { getProviderAdapter, listProviderAdapters } from "../lib/providers"
+import type { LLMProvider, LLMSettings } from "../lib/types"
+
+interface FallbackChainEditorProps {
+  llmSettings: LLMSettings
+  onChange: (fallbackProviders: LLMProvider[]) => void
+}
+
+export function FallbackChainEditor({ llmSettings, onChange }: FallbackChainEditorProps) {
+  const chain = (llmSettings.fallbackProviders ?? []).filter((provider) => provider !== llmSettings.currentProvider)
+  const available = listProviderAdapters().filter(
+    (adapter) => adapter.id !== llmSettings.currentProvider && !chain.includes(adapter.id)
+  )
+
+  const move = (index: number, offset: number) => {
+    const next = [...chain]
+    const [provider] = next.splice(index, 1)
+    next.splice(index + offset, 0, provider)
+    onChange(next)
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Fallback Providers</Label>
+      <p className="text-xs text-muted-foreground">
+        Tried in order when the current provider is rate limited, failing or not responding.
+      </p>
+
+      {chain.map((provider, index) => {
+        const settings = llmSettings.providers[provider]
+        const ready = settings?.apiKeyValid === true
+        return (
+          <div key={provider} className="flex items-center gap-2 rounded border border-border px-2 py-1">
+            <span className="text-xs text-muted-foreground w-4">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm truncate">{getProviderAdapter(provider).label}</p>
+              <p className={`text-xs truncate ${ready ? "text-muted-foreground" : "text-amber-600"}`}>
+                {ready ? settings.model : "Skipped until its API key is validated"}
+              </p>
+            </div>
+            <Button variant="ghost" size="sm" onClick={() => move(index, -1)} disabled={index === 0} title="Move up">
+              <ArrowUpIcon className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, 1)}
+              disabled={index === chain.length - 1}
+              title="Move down">
+              <ArrowDownIcon className="w-3 h-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(chain.filter((item) => item !== provider))}
+              title="Remove">
+              <XMarkIcon className="w-3 h-3" />
+            </Button>
+          </div>
+        )
+      })}
+
+      {available.length > 0 && (
+        <Select value="" onValueChange={(value: LLMProvider) => onChange([...chain, value])}>
+          <SelectTrigger className="h-8 text-xs">
+            <SelectValue placeholder="Add a fallback provider" />
+          </SelectTrigger>
+          <SelectContent>
+            {available.map((adapter) => (
+              <SelectItem key={adapter.id} value={adapter.id}>
+                {adapter.label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,240 @@
+import React, { useEffect, useMemo, useState } from 'react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Card, CardContent } from './ui/card'
+import { Input } from './ui/input'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/select'
+import { BatchSummaryPanel } from './BatchSummaryPanel'
+import { ExportControls } from './ExportControls'
+import { Clock, ExternalLink, Eye, RefreshCw, Search, Trash2 } from 'lucide-react'
+import { useAppStore } from '../lib/store'
+import { isSummaryOfPage } from '../lib/cacheKeys'
+import { formatTimeAgo, getHostname, getSentimentColor, getSentimentEmoji } from '../lib/utils'
+import type { SummaryResult } from '../lib/types'
+
+interface HistoryViewProps {
+  currentUrl: string | null
+  currentCanonicalUrl?: string | null
+  onOpen: (summary: SummaryResult) => void
+  // Without a tab, the entry is re-run on the active tab
+  onRerun: (summary: SummaryResult, tabId?: number) => void
+}
+
+const ALL_DOMAINS = 'all'
+const SEARCH_DEBOUNCE_MS = 200
+
+export function HistoryView({ currentUrl, currentCanonicalUrl, onOpen, onRerun }: HistoryViewProps) {
+  const {
+    summaries,
+    currentSummary,
+    isLoading,
+    isGenerating,
+    stats,
+    loadSummaries,
+    loadStats,
+    deleteSummary,
+    searchSummaries,
+    setCurrentSummary
+  } = useAppStore()
+
+  const [query, setQuery] = useState('')
+  const [domain, setDomain] = useState(ALL_DOMAINS)
+  const [results, setResults] = useState<SummaryResult[] | null>(null)
+
+  const [openTabs, setOpenTabs] = useState<chrome.tabs.Tab[]>([])
+
+  const isCurrentPage = (summary: SummaryResult) => !!currentUrl && isSummaryOfPage(summary, currentUrl, currentCanonicalUrl)
+
+  // Chrome only shares the address of tabs on sites the extension can read,
+  // so any tab found here can be summarized in the background
+  const findPageTab = (summary: SummaryResult) =>
+    openTabs.find((tab) => tab.id && !tab.discarded && tab.url && isSummaryOfPage(summary, tab.url))
+
+  const canRerun = (summary: SummaryResult) => isCurrentPage(summary) || !!findPageTab(summary)
+
+  const handleRerun = (summary: SummaryResult) => {
+    onRerun(summary, isCurrentPage(summary) ? undefined : findPageTab(summary)?.id)
+  }
+
+  const isFiltering = query.trim() !== '' || domain !== ALL_DOMAINS
+
+  useEffect(() => {
+    loadSummaries()
+    loadStats()
+  }, [loadSummaries, loadStats])
+
+  useEffect(() => {
+    chrome.tabs.query({}).then(setOpenTabs)
+  }, [currentUrl])
+
+  // Re-run the search whenever the query, filter or stored summaries change
+  useEffect(() => {
+    if (!isFiltering) {
+      setResults(null)
+      return
+    }
+
+    let cancelled = false
+    const timeoutId = setTimeout(async () => {
+      const found = await searchSummaries(query, {
+        hostname: domain === ALL_DOMAINS ? undefined : domain
+      })
+      if (!cancelled) setResults(found)
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timeoutId)
+    }
+  }, [query, domain, summaries, isFiltering, searchSummaries])
+
+  const visibleSummaries = results ?? summaries
+
+  // Summaries arrive newest first, so each group keeps that order
+  const groups = useMemo(() => {
+    const byDomain = new Map<string, SummaryResult[]>()
+    for (const summary of visibleSummaries) {
+      const hostname = getHostname(summary.url)
+      byDomain.set(hostname, [...(byDomain.get(hostname) ?? []), summary])
+    }
+    return [...byDomain.entries()]
+  }, [visibleSummaries])
+
+  const handleDelete = async (summary: SummaryResult) => {
+    await deleteSummary(summary.id)
+    if (currentSummary?.id === summary.id) {
+      setCurrentSummary(null)
+    }
+  }
+
+  if (isLoading && summaries.length === 0) {
+    return <div className="text-center py-8 text-sm text-muted-foreground">Loading history...</div>
+  }
+
+  if (summaries.length === 0) {
+    return (
+      <div className="space-y-4">
+        <BatchSummaryPanel onOpen={onOpen} />
+        <div className="text-center py-8">
+          <Clock className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">No summaries yet</p>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4">
+      <BatchSummaryPanel onOpen={onOpen} />
+
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-2 top-3 h-4 w-4 text-muted-foreground" />
+          <Input
+            placeholder="Search summaries"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="pl-8"
+          />
+        </div>
+        <Select value={domain} onValueChange={setDomain}>
+          <SelectTrigger className="w-36">
+            <SelectValue placeholder="All domains" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_DOMAINS}>All domains</SelectItem>
+            {stats.domains.map((hostname) => (
+              <SelectItem key={hostname} value={hostname}>
+                {hostname}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {visibleSummaries.length > 0 && <ExportControls summaries={visibleSummaries} />}
+
+      {isFiltering && visibleSummaries.length === 0 && (
+        <p className="text-center py-4 text-sm text-muted-foreground">
+          No summaries match your search
+        </p>
+      )}
+
+      {groups.map(([hostname, domainSummaries]) => (
+        <div key={hostname} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-sm truncate">{hostname}</h4>
+            <Badge variant="secondary" className="text-xs">
+              {domainSummaries.length}
+            </Badge>
+          </div>
+
+          {domainSummaries.map((summary) => (
+            <Card key={summary.id}>
+              <CardContent className="p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium truncate">{summary.title}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatTimeAgo(summary.createdAt)}
+                    </p>
+                  </div>
+                  <span
+                    className={getSentimentColor(summary.sentiment)}
+                    title={summary.sentiment}
+                  >
+                    {getSentimentEmoji(summary.sentiment)}
+                  </span>
+                </div>
+
+                <p className="text-xs text-muted-foreground line-clamp-2">
+                  {summary.summary}
+                </p>
+
+                <div className="flex items-center gap-1">
+                  <Button variant="ghost" size="sm" onClick={() => onOpen(summary)}>
+                    <Eye className="h-3 w-3 mr-1" />
+                    Open
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => handleRerun(summary)}
+                    disabled={isGenerating || !canRerun(summary)}
+                    title={!canRerun(summary) ? 'Open this page to re-run its summary' : undefined}
+                  >
+                    <RefreshCw className="h-3 w-3 mr-1" />
+                    Re-run
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => chrome.tabs.create({ url: summary.url })}
+                    title="Open page in a new tab"
+                  >
+                    <ExternalLink className="h-3 w-3" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="ml-auto text-red-600"
+                    onClick={() => handleDelete(summary)}
+                    title="Delete summary"
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ))}
+    </div>
+  )
+}
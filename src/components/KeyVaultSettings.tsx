@@ -0,0 +1,160 @@
+import React, { useState } from "react"
+import { LockClosedIcon, LockOpenIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "./ui/select"
+import { useAppStore } from "../lib/store"
+import { keyVault } from "../lib/vault"
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+const AUTO_LOCK_OPTIONS = [
+  { minutes: 15, label: "After 15 minutes" },
+  { minutes: 60, label: "After 1 hour" },
+  { minutes: 240, label: "After 4 hours" },
+  { minutes: 0, label: "When the browser closes" }
+]
+
+export function KeyVaultSettings() {
+  const { vaultStatus, loadVaultStatus } = useAppStore()
+
+  const [passphrase, setPassphrase] = useState("")
+  const [confirmation, setConfirmation] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  if (!vaultStatus) return null
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await action()
+      setPassphrase("")
+      setConfirmation("")
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Something went wrong")
+    } finally {
+      setIsWorking(false)
+      await loadVaultStatus()
+    }
+  }
+
+  const handleSetPassphrase = () =>
+    run(async () => {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`)
+      }
+      if (passphrase !== confirmation) {
+        throw new Error("Passphrases don't match")
+      }
+      await keyVault.setPassphrase(passphrase)
+    })
+
+  if (vaultStatus.locked) {
+    return (
+      <div className="space-y-2">
+        <Label htmlFor="vaultPassphrase" className="flex items-center gap-2">
+          <LockClosedIcon className="w-4 h-4" />
+          API Keys Locked
+        </Label>
+        <div className="flex gap-2">
+          <Input
+            id="vaultPassphrase"
+            type="password"
+            placeholder="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && run(() => keyVault.unlock(passphrase))}
+          />
+          <Button onClick={() => run(() => keyVault.unlock(passphrase))} disabled={!passphrase || isWorking}>
+            Unlock
+          </Button>
+        </div>
+        {error && <p className="text-xs text-red-600">{error}</p>}
+      </div>
+    )
+  }
+
+  const hasPassphrase = vaultStatus.mode === "passphrase"
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="flex items-center gap-2">
+          <LockOpenIcon className="w-4 h-4" />
+          {hasPassphrase ? "API Keys Unlocked" : "API Key Encryption"}
+        </Label>
+        {hasPassphrase && (
+          <Button variant="outline" size="sm" onClick={() => run(() => keyVault.lock())} disabled={isWorking}>
+            Lock now
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {hasPassphrase
+          ? "Keys are encrypted with your passphrase and must be unlocked to summarize."
+          : "Keys are encrypted with a key kept on this device. Add a passphrase to lock them."}
+      </p>
+
+      {hasPassphrase && (
+        <div className="flex items-center justify-between gap-2">
+          <Label className="text-xs">Lock automatically</Label>
+          <Select
+            value={String(vaultStatus.autoLockMinutes)}
+            onValueChange={(value) => run(() => keyVault.setAutoLockMinutes(Number(value)))}>
+            <SelectTrigger className="w-44 h-8 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {AUTO_LOCK_OPTIONS.map((option) => (
+                <SelectItem key={option.minutes} value={String(option.minutes)}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      )}
+
+      <Input
+        type="password"
+        placeholder={hasPassphrase ? "New passphrase" : "Passphrase"}
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        className="h-8 text-xs"
+      />
+      <Input
+        type="password"
+        placeholder="Confirm passphrase"
+        value={confirmation}
+        onChange={(e) => setConfirmation(e.target.value)}
+        className="h-8 text-xs"
+      />
+      <div className="flex gap-2">
+        <Button size="sm" onClick={handleSetPassphrase} disabled={!passphrase || isWorking}>
+          {hasPassphrase ? "Change passphrase" : "Set passphrase"}
+        </Button>
+        {hasPassphrase && (
+          <Button
+            variant="outline"
+            size="sm"
+            className="text-red-600"
+            onClick={() => run(() => keyVault.removePassphrase())}
+            disabled={isWorking}>
+            Remove passphrase
+          </Button>
+        )}
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
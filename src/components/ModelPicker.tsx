@@ -0,0 +1,133 @@
+import React, { useEffect, useState } from "react"
+import { ArrowPathIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "./ui/select"
+import { getModelCatalog, refreshModelCatalog, subscribeToModelCatalog, type ModelOption } from "../lib/providers"
+import type { LLMProvider, ProviderSettings } from "../lib/types"
+
+// Radix Select needs a non-empty value for the free-text entry
+const CUSTOM_MODEL_VALUE = "__custom__"
+
+interface ModelPickerProps {
+  provider: LLMProvider
+  settings: ProviderSettings
+  // Discover the provider's models once the key (or server) works
+  canDiscover: boolean
+  onChange: (model: string) => void
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000000 ? `${+(tokens / 1000000).toFixed(1)}M` : `${Math.round(tokens / 1000)}K`
+}
+
+function describeModel(option: ModelOption | undefined): string | null {
+  if (!option) return "Custom model id: context size and pricing are unknown"
+  const details = [
+    option.contextWindow && `${formatTokens(option.contextWindow)} token context`,
+    option.pricing && `$${option.pricing.input} in / $${option.pricing.output} out per million tokens`
+  ].filter(Boolean)
+  return details.length > 0 ? details.join(" · ") : null
+}
+
+export function ModelPicker({ provider, settings, canDiscover, onChange }: ModelPickerProps) {
+  const [models, setModels] = useState<ModelOption[]>([])
+  const [enteringCustom, setEnteringCustom] = useState(false)
+  const [isRefreshing, setIsRefreshing] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadCatalog = () =>
+      getModelCatalog(provider, settings).then((catalog) => {
+        if (!cancelled) setModels(catalog)
+      })
+
+    setEnteringCustom(false)
+    setError(null)
+    loadCatalog()
+    if (canDiscover) refreshModelCatalog(provider, settings)
+
+    const unsubscribe = subscribeToModelCatalog(loadCatalog)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [provider, settings.baseUrl, canDiscover])
+
+  const handleRefresh = async () => {
+    setIsRefreshing(true)
+    setError(null)
+    try {
+      await refreshModelCatalog(provider, settings, true)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : "Could not load models")
+    } finally {
+      setIsRefreshing(false)
+    }
+  }
+
+  const selected = models.find((option) => option.id === settings.model)
+  const showCustomInput = enteringCustom || (!!settings.model && !selected)
+  const description = settings.model ? describeModel(selected) : null
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="model">Model</Label>
+      <div className="flex gap-2">
+        <Select
+          value={showCustomInput ? CUSTOM_MODEL_VALUE : settings.model}
+          onValueChange={(value) => {
+            setEnteringCustom(value === CUSTOM_MODEL_VALUE)
+            if (value !== CUSTOM_MODEL_VALUE) onChange(value)
+          }}>
+          <SelectTrigger id="model" className="flex-1">
+            <SelectValue placeholder={models.length > 0 ? "Select model" : "Connect to list models"} />
+          </SelectTrigger>
+          <SelectContent>
+            {models.map((model) => (
+              <SelectItem key={model.id} value={model.id}>
+                {model.label}
+              </SelectItem>
+            ))}
+            <SelectItem value={CUSTOM_MODEL_VALUE}>Custom model ID...</SelectItem>
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-10"
+          onClick={handleRefresh}
+          disabled={isRefreshing}
+          title="Refresh the model list">
+          <ArrowPathIcon className={`w-4 h-4 ${isRefreshing ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+
+      {showCustomInput && (
+        // Uncontrolled and saved on blur so a half-typed id isn't validated
+        <Input
+          key={provider}
+          placeholder="Model ID, e.g. claude-sonnet-4-20250514"
+          defaultValue={selected ? "" : settings.model}
+          onBlur={(e) => {
+            const model = e.target.value.trim()
+            if (model && model !== settings.model) onChange(model)
+          }}
+          className="h-8 text-xs"
+        />
+      )}
+
+      {description && <p className="text-xs text-muted-foreground">{description}</p>}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent } from './ui/card'
+import { Lock } from 'lucide-react'
+import { getHostPermissionPattern } from '../lib/providers'
+import { getHostname } from '../lib/utils'
+
+interface PageAccessCardProps {
+  url: string | null
+}
+
+// activeTab only covers the tab the toolbar button was clicked on, so the
+// side panel needs site access to read the pages it follows
+export function PageAccessCard({ url }: PageAccessCardProps) {
+  const [hasAccess, setHasAccess] = useState(true)
+  const pattern = url ? getHostPermissionPattern(url) : null
+
+  useEffect(() => {
+    if (!pattern) {
+      setHasAccess(true)
+      return
+    }
+
+    let cancelled = false
+    chrome.permissions.contains({ origins: [pattern] }).then((granted) => {
+      if (!cancelled) setHasAccess(granted)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [pattern])
+
+  if (hasAccess || !pattern || !url) return null
+
+  // Chrome only shows the prompt while the click is being handled
+  const handleAllow = async () => setHasAccess(await chrome.permissions.request({ origins: [pattern] }))
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-3 space-y-2">
+        <h4 className="font-medium text-sm flex items-center gap-2">
+          <Lock className="h-3 w-3 text-muted-foreground" />
+          Allow access to {getHostname(url)}
+        </h4>
+        <p className="text-xs text-muted-foreground">
+          The side panel can only read pages on sites you allow.
+        </p>
+        <Button size="sm" onClick={handleAllow}>
+          Allow access
+        </Button>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,192 @@
+import React, { useEffect, useState } from "react"
+import { DocumentDuplicateIcon, StarIcon, TrashIcon } from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { Textarea } from "./ui/textarea"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from "./ui/select"
+import { useAppStore } from "../lib/store"
+import { capturePageText } from "../lib/pageScripts"
+import {
+  DEFAULT_TEMPLATE_ID,
+  TEMPLATE_VARIABLES,
+  findPromptTemplate,
+  getLanguageName,
+  listPromptTemplates,
+  renderTemplate
+} from "../lib/templates"
+import type { AppSettings, PromptTemplate } from "../lib/types"
+
+// Enough page text to see where {{content}} lands without flooding the popup
+const PREVIEW_CONTENT_CHARS = 400
+
+interface PreviewPage {
+  title: string
+  url: string
+  content: string
+}
+
+async function getPreviewPage(): Promise<PreviewPage> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  let content = "(page content)"
+  try {
+    if (tab?.id) {
+      const [result] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: capturePageText,
+        args: [PREVIEW_CONTENT_CHARS]
+      })
+      if (result?.result) content = `${result.result}…`
+    }
+  } catch {
+    // Browser pages can't be scripted; the placeholder is enough for a preview
+  }
+  return { title: tab?.title ?? "(page title)", url: tab?.url ?? "(page url)", content }
+}
+
+export function PromptTemplatesEditor() {
+  const { settings, updateSettings } = useAppStore()
+  const customTemplates = settings.promptTemplates ?? []
+  const templates = listPromptTemplates(settings)
+
+  const [selectedId, setSelectedId] = useState(settings.defaultTemplateId)
+  const [previewPage, setPreviewPage] = useState<PreviewPage | null>(null)
+
+  useEffect(() => {
+    getPreviewPage().then(setPreviewPage)
+  }, [])
+
+  const selected = findPromptTemplate(settings, selectedId)
+
+  const saveTemplates = (updated: PromptTemplate[]) => updateSettings({ promptTemplates: updated })
+
+  const updateTemplate = (id: string, updates: Partial<PromptTemplate>) =>
+    saveTemplates(customTemplates.map((template) => (template.id === id ? { ...template, ...updates } : template)))
+
+  const handleDuplicate = () => {
+    const copy: PromptTemplate = {
+      id: crypto.randomUUID(),
+      name: `${selected.name} (copy)`,
+      template: selected.template
+    }
+    saveTemplates([...customTemplates, copy])
+    setSelectedId(copy.id)
+  }
+
+  const handleDelete = () => {
+    const defaultTemplateId =
+      settings.defaultTemplateId === selected.id ? DEFAULT_TEMPLATE_ID : settings.defaultTemplateId
+    updateSettings({
+      promptTemplates: customTemplates.filter((template) => template.id !== selected.id),
+      defaultTemplateId
+    })
+    setSelectedId(defaultTemplateId)
+  }
+
+  const preview = previewPage
+    ? renderTemplate(selected.template, {
+        ...previewPage,
+        length: settings.summaryLength,
+        language: getLanguageName()
+      })
+    : "Loading preview..."
+
+  return (
+    <div className="space-y-3">
+      <Label className="text-sm font-medium">Prompt Templates</Label>
+
+      <div className="flex gap-2">
+        <Select value={selected.id} onValueChange={setSelectedId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Select template" />
+          </SelectTrigger>
+          <SelectContent>
+            {templates.map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+                {template.id === settings.defaultTemplateId ? " (default)" : ""}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-10"
+          onClick={() => updateSettings({ defaultTemplateId: selected.id })}
+          disabled={selected.id === settings.defaultTemplateId}
+          title="Use by default">
+          <StarIcon className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="sm" className="h-10" onClick={handleDuplicate} title="Copy to a new template">
+          <DocumentDuplicateIcon className="w-4 h-4" />
+        </Button>
+        {!selected.builtIn && (
+          <Button variant="outline" size="sm" className="h-10 text-red-600" onClick={handleDelete} title="Delete template">
+            <TrashIcon className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+
+      {selected.builtIn ? (
+        <p className="text-xs text-muted-foreground">
+          Built-in templates are read-only. Copy one to make your own.
+        </p>
+      ) : (
+        <Input
+          key={selected.id}
+          placeholder="Template name"
+          defaultValue={selected.name}
+          onChange={(e) => updateTemplate(selected.id, { name: e.target.value })}
+          className="h-8 text-xs"
+        />
+      )}
+
+      {/* Uncontrolled so the caret stays put while saves round-trip through storage */}
+      <Textarea
+        key={selected.id}
+        defaultValue={selected.template}
+        readOnly={selected.builtIn}
+        onChange={(e) => updateTemplate(selected.id, { template: e.target.value })}
+        className="min-h-[160px] text-xs font-mono"
+      />
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {TEMPLATE_VARIABLES.map((variable) => (
+          <span key={variable.name} title={variable.description}>
+            <code>{`{{${variable.name}}}`}</code>
+          </span>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-between gap-2">
+        <Label className="text-xs">Summary length</Label>
+        <Select
+          value={settings.summaryLength}
+          onValueChange={(value: AppSettings["summaryLength"]) => updateSettings({ summaryLength: value })}>
+          <SelectTrigger className="w-32 h-8 text-xs">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="brief">Brief</SelectItem>
+            <SelectItem value="detailed">Detailed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-1">
+        <Label className="text-xs">Preview on this page</Label>
+        <pre className="max-h-48 overflow-auto rounded-md border border-border p-2 text-xs whitespace-pre-wrap">
+          {preview}
+        </pre>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,54 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent } from './ui/card'
+import { RefreshCw, X } from 'lucide-react'
+import { SELECTION_RESULT_KEY, findSelectionAction } from '../lib/selection'
+import type { SelectionResult } from '../lib/types'
+
+// Latest context-menu or shortcut result, for users who send them to the side panel
+export function SelectionResultCard() {
+  const [result, setResult] = useState<SelectionResult | null>(null)
+
+  useEffect(() => {
+    chrome.storage.session.get(SELECTION_RESULT_KEY).then((stored) => {
+      setResult(stored[SELECTION_RESULT_KEY] ?? null)
+    })
+
+    const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'session' && SELECTION_RESULT_KEY in changes) {
+        setResult(changes[SELECTION_RESULT_KEY].newValue ?? null)
+      }
+    }
+    chrome.storage.onChanged.addListener(handleChanged)
+    return () => chrome.storage.onChanged.removeListener(handleChanged)
+  }, [])
+
+  if (!result) return null
+
+  return (
+    <Card className="mb-4">
+      <CardContent className="p-3 space-y-2">
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium text-sm flex items-center gap-2">
+            {findSelectionAction(result.action)?.heading}
+            {result.status === 'streaming' && <RefreshCw className="h-3 w-3 animate-spin text-muted-foreground" />}
+          </h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => chrome.storage.session.remove(SELECTION_RESULT_KEY)}
+            title="Dismiss"
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+        <p className="text-xs text-muted-foreground line-clamp-2 italic">{result.selection}</p>
+        {result.status === 'error' ? (
+          <p className="text-sm text-red-600">{result.error}</p>
+        ) : (
+          <p className="text-sm leading-relaxed whitespace-pre-wrap">{result.text || '...'}</p>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
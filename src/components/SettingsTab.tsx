@@ -17,35 +17,42 @@ import {
   SelectTrigger,
   SelectValue
 } from "./ui/select"
-
-// Per-provider settings interface
-interface ProviderSettings {
-  apiKey: string
-  model: string
-}
-
-// Settings interface
-interface LLMSettings {
-  currentProvider: "openai" | "anthropic" | "google" | "xai" | ""
-  providers: {
-    openai: ProviderSettings
-    anthropic: ProviderSettings
-    google: ProviderSettings
-    xai: ProviderSettings
-  }
-}
+import { AutoSummarizeSettings } from "./AutoSummarizeSettings"
+import { CustomServerSettings } from "./CustomServerSettings"
+import { FallbackChainEditor } from "./FallbackChainEditor"
+import { KeyVaultSettings } from "./KeyVaultSettings"
+import { ModelPicker } from "./ModelPicker"
+import { PromptTemplatesEditor } from "./PromptTemplatesEditor"
+import { SiteRulesEditor } from "./SiteRulesEditor"
+import { getCurrentProviderSettings, isProviderConfigured, listProviderAdapters } from "../lib/providers"
+import { useAppStore } from "../lib/store"
+import type { LLMProvider, LLMSettings, ProviderSettings, SelectionOutput, Theme } from "../lib/types"
 
 interface SettingsTabProps {
   llmSettings: LLMSettings
   onSaveSettings: (settings: LLMSettings) => void
   apiKeyValid: boolean | null
   isValidatingApiKey: boolean
-  theme: "light" | "dark"
-  onThemeChange: (theme: "light" | "dark") => void
+  theme: Theme
+  onThemeChange: (theme: Theme) => void
 }
 
 export function SettingsTab({ llmSettings, onSaveSettings, apiKeyValid, isValidatingApiKey, theme, onThemeChange }: SettingsTabProps) {
-  const currentProvider = llmSettings.providers[llmSettings.currentProvider]
+  const currentProvider = getCurrentProviderSettings(llmSettings)
+  const { settings, updateSettings, vaultStatus } = useAppStore()
+  const keysLocked = vaultStatus?.locked ?? false
+  const isCustomServer = llmSettings.currentProvider === "custom"
+
+  const saveProviderSettings = (updates: Partial<ProviderSettings>) => {
+    if (!llmSettings.currentProvider || !currentProvider) return
+    onSaveSettings({
+      ...llmSettings,
+      providers: {
+        ...llmSettings.providers,
+        [llmSettings.currentProvider]: { ...currentProvider, ...updates }
+      }
+    })
+  }
   
   return (
     <div className="space-y-4">
@@ -77,7 +84,7 @@ export function SettingsTab({ llmSettings, onSaveSettings, apiKeyValid, isValida
           <Label htmlFor="provider">AI Provider</Label>
           <Select
             value={llmSettings.currentProvider}
-            onValueChange={(value: "openai" | "anthropic" | "google" | "xai" | "") =>
+            onValueChange={(value: LLMProvider | "") =>
               onSaveSettings({
                 ...llmSettings,
                 currentProvider: value
@@ -87,102 +94,40 @@ export function SettingsTab({ llmSettings, onSaveSettings, apiKeyValid, isValida
               <SelectValue placeholder="Select AI provider" />
             </SelectTrigger>
             <SelectContent>
-              <SelectItem value="anthropic">Anthropic</SelectItem>
-              <SelectItem value="google">Google Gemini</SelectItem>
-              <SelectItem value="openai">OpenAI</SelectItem>
-              <SelectItem value="xai">xAI</SelectItem>
+              {listProviderAdapters().map((adapter) => (
+                <SelectItem key={adapter.id} value={adapter.id}>
+                  {adapter.label}
+                </SelectItem>
+              ))}
             </SelectContent>
           </Select>
         </div>
 
-        {llmSettings.currentProvider && (
+        {llmSettings.currentProvider && currentProvider && (
           <>
-            <div className="space-y-2">
-              <Label htmlFor="model">Model</Label>
-              <Select
-                value={currentProvider.model}
-                onValueChange={(value) =>
-                  onSaveSettings({
-                    ...llmSettings,
-                    providers: {
-                      ...llmSettings.providers,
-                      [llmSettings.currentProvider]: {
-                        ...currentProvider,
-                        model: value
-                      }
-                    }
-                  })
-                }>
-                <SelectTrigger>
-                  <SelectValue placeholder="Select model" />
-                </SelectTrigger>
-                <SelectContent>
-                  {llmSettings.currentProvider === "openai" && (
-                    <>
-                      <SelectItem value="gpt-4o">GPT-4o</SelectItem>
-                      <SelectItem value="gpt-4o-mini">GPT-4o Mini</SelectItem>
-                      <SelectItem value="gpt-4-turbo">GPT-4 Turbo</SelectItem>
-                    </>
-                  )}
-                  {llmSettings.currentProvider === "anthropic" && (
-                    <>
-                      <SelectItem value="claude-3-5-sonnet-20241022">
-                        Claude 3.5 Sonnet
-                      </SelectItem>
-                      <SelectItem value="claude-3-5-haiku-20241022">
-                        Claude 3.5 Haiku
-                      </SelectItem>
-                      <SelectItem value="claude-3-opus-20240229">
-                        Claude 3 Opus
-                      </SelectItem>
-                    </>
-                  )}
-                  {llmSettings.currentProvider === "google" && (
-                    <>
-                      <SelectItem value="gemini-2.5-pro">
-                        Gemini 2.5 Pro
-                      </SelectItem>
-                      <SelectItem value="gemini-2.5-flash">
-                        Gemini 2.5 Flash
-                      </SelectItem>
-                      <SelectItem value="gemini-1.5-pro">
-                        Gemini 1.5 Pro (Legacy)
-                      </SelectItem>
-                      <SelectItem value="gemini-1.5-flash">
-                        Gemini 1.5 Flash (Legacy)
-                      </SelectItem>
-                    </>
-                  )}
-                  {llmSettings.currentProvider === "xai" && (
-                    <>
-                      <SelectItem value="grok-2-1212">
-                        Grok 2 (Latest)
-                      </SelectItem>
-                      <SelectItem value="grok-2-vision-1212">
-                        Grok 2 Vision (Latest)
-                      </SelectItem>
-                      <SelectItem value="grok-code-fast-1">
-                        Grok Code Fast
-                      </SelectItem>
-                      <SelectItem value="grok-beta">
-                        Grok Beta (Legacy)
-                      </SelectItem>
-                      <SelectItem value="grok-vision-beta">
-                        Grok Vision Beta (Legacy)
-                      </SelectItem>
-                    </>
-                  )}
-                </SelectContent>
-              </Select>
-            </div>
+            {isCustomServer && (
+              <CustomServerSettings
+                key={llmSettings.currentProvider}
+                settings={currentProvider}
+                onChange={saveProviderSettings}
+              />
+            )}
+
+            <ModelPicker
+              provider={llmSettings.currentProvider}
+              settings={currentProvider}
+              canDiscover={apiKeyValid === true}
+              onChange={(model) => saveProviderSettings({ model })}
+            />
 
             <div className="space-y-2">
-              <Label htmlFor="apiKey">API Key</Label>
+              <Label htmlFor="apiKey">{isCustomServer ? "API Key (optional)" : "API Key"}</Label>
               <Input
                 id="apiKey"
                 type="password"
-                placeholder={`Enter your ${llmSettings.currentProvider} API key`}
+                placeholder={keysLocked ? "Unlock your API keys to edit" : `Enter your ${llmSettings.currentProvider} API key`}
                 value={currentProvider.apiKey}
+                disabled={keysLocked}
                 onChange={(e) =>
                   onSaveSettings({
                     ...llmSettings,
@@ -197,15 +142,14 @@ export function SettingsTab({ llmSettings, onSaveSettings, apiKeyValid, isValida
                 }
               />
               <p className="text-xs text-muted-foreground">
-                Your API key is stored locally and never shared.
+                Your API key is encrypted, stored locally and never shared.
               </p>
             </div>
           </>
         )}
 
-        {llmSettings.currentProvider &&
-          currentProvider.apiKey &&
-          currentProvider.model && (
+        {currentProvider &&
+          isProviderConfigured(llmSettings) && (
             <div className="pt-4 border-t border-border">
               {isValidatingApiKey ? (
                 <div className="flex items-center gap-2 text-blue-600">
@@ -248,6 +192,49 @@ export function SettingsTab({ llmSettings, onSaveSettings, apiKeyValid, isValida
             </div>
           )}
       </div>
+
+      {llmSettings.currentProvider && (
+        <div className="pt-4 border-t border-border">
+          <FallbackChainEditor
+            llmSettings={llmSettings}
+            onChange={(fallbackProviders) => onSaveSettings({ ...llmSettings, fallbackProviders })}
+          />
+        </div>
+      )}
+
+      <div className="pt-4 border-t border-border">
+        <KeyVaultSettings />
+      </div>
+
+      <div className="pt-4 border-t border-border space-y-2">
+        <Label htmlFor="selectionOutput">Selected Text Actions</Label>
+        <Select
+          value={settings.selectionOutput}
+          onValueChange={(value: SelectionOutput) => updateSettings({ selectionOutput: value })}>
+          <SelectTrigger id="selectionOutput">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="overlay">Show results on the page</SelectItem>
+            <SelectItem value="sidepanel">Show results in the side panel</SelectItem>
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-muted-foreground">
+          Right-click selected text, or use Alt+Shift+S, E or T, to summarize, explain or translate it.
+        </p>
+      </div>
+
+      <div className="pt-4 border-t border-border">
+        <AutoSummarizeSettings />
+      </div>
+
+      <div className="pt-4 border-t border-border">
+        <PromptTemplatesEditor />
+      </div>
+
+      <div className="pt-4 border-t border-border">
+        <SiteRulesEditor />
+      </div>
     </div>
   )
 }
\ No newline at end of file
@@ -0,0 +1,228 @@
+import React, { useEffect, useState } from "react"
+import {
+  PlusIcon,
+  TrashIcon,
+  BeakerIcon,
+  CursorArrowRaysIcon
+} from "@heroicons/react/24/outline"
+
+import { Button } from "./ui/button"
+import { Input } from "./ui/input"
+import { Label } from "./ui/label"
+import { useAppStore } from "../lib/store"
+import { pickElement, testSelectors, type SelectorTestResult } from "../lib/pageScripts"
+import type { SiteConfig } from "../lib/types"
+
+async function getActiveTab(): Promise<chrome.tabs.Tab | undefined> {
+  const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+  return tab
+}
+
+export function SiteRulesEditor() {
+  const { settings, updateSettings } = useAppStore()
+  const sites = settings.enabledSites ?? []
+  const customSelectors = settings.customSelectors ?? []
+
+  const [newDomain, setNewDomain] = useState("")
+  const [newCustomSelector, setNewCustomSelector] = useState("")
+  const [newSelectors, setNewSelectors] = useState<Record<string, string>>({})
+  const [testResults, setTestResults] = useState<Record<string, SelectorTestResult | string>>({})
+  const [pickerActive, setPickerActive] = useState(false)
+
+  // Suggest the current page's domain for a new rule
+  useEffect(() => {
+    getActiveTab().then((tab) => {
+      if (tab?.url?.startsWith("http")) {
+        setNewDomain(new URL(tab.url).hostname)
+      }
+    })
+  }, [])
+
+  const saveSites = (updatedSites: SiteConfig[]) => updateSettings({ enabledSites: updatedSites })
+
+  const updateSite = (domain: string, updates: Partial<SiteConfig>) =>
+    saveSites(sites.map((site) => (site.domain === domain ? { ...site, ...updates } : site)))
+
+  const handleAddSite = () => {
+    const domain = newDomain.trim().toLowerCase()
+    if (!domain || sites.some((site) => site.domain === domain)) return
+    saveSites([...sites, { domain, name: domain, selectors: [], enabled: true }])
+  }
+
+  const handleAddSelector = (site: SiteConfig) => {
+    const selector = newSelectors[site.domain]?.trim()
+    if (!selector || site.selectors.includes(selector)) return
+    updateSite(site.domain, { selectors: [...site.selectors, selector] })
+    setNewSelectors({ ...newSelectors, [site.domain]: "" })
+  }
+
+  const handleTest = async (site: SiteConfig) => {
+    try {
+      const tab = await getActiveTab()
+      if (!tab?.id) throw new Error("No active tab")
+
+      const [result] = await chrome.scripting.executeScript({
+        target: { tabId: tab.id },
+        func: testSelectors,
+        args: [site.selectors]
+      })
+      setTestResults({ ...testResults, [site.domain]: result.result ?? "No result" })
+    } catch (error) {
+      setTestResults({
+        ...testResults,
+        [site.domain]: error instanceof Error ? error.message : "Could not run selectors on this page"
+      })
+    }
+  }
+
+  const handleAddCustomSelector = () => {
+    const selector = newCustomSelector.trim()
+    if (!selector || customSelectors.includes(selector)) return
+    updateSettings({ customSelectors: [...customSelectors, selector] })
+    setNewCustomSelector("")
+  }
+
+  // The popup closes as soon as the user clicks the page, so the picked
+  // selector is saved by the background worker rather than here
+  const handlePick = async () => {
+    const tab = await getActiveTab()
+    if (!tab?.id) return
+    await chrome.scripting.executeScript({ target: { tabId: tab.id }, func: pickElement })
+    setPickerActive(true)
+  }
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Site Extraction Rules</Label>
+        <Button variant="outline" size="sm" onClick={handlePick}>
+          <CursorArrowRaysIcon className="w-4 h-4 mr-1" />
+          Pick element
+        </Button>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {pickerActive
+          ? "Click the main content on the page. The selector is saved to that site's rule."
+          : "CSS selectors to read first on specific domains (subdomains included)."}
+      </p>
+
+      {sites.map((site) => {
+        const testResult = testResults[site.domain]
+        return (
+          <div key={site.domain} className="rounded-md border border-border p-3 space-y-2">
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-sm font-medium min-w-0">
+                <input
+                  type="checkbox"
+                  checked={site.enabled}
+                  onChange={(e) => updateSite(site.domain, { enabled: e.target.checked })}
+                />
+                <span className="truncate">{site.domain}</span>
+              </label>
+              <div className="flex gap-1">
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleTest(site)}
+                  disabled={site.selectors.length === 0}
+                  title="Test selectors on the current page">
+                  <BeakerIcon className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  className="text-red-600"
+                  onClick={() => saveSites(sites.filter((other) => other.domain !== site.domain))}
+                  title="Delete rule">
+                  <TrashIcon className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+
+            {site.selectors.map((selector) => (
+              <div key={selector} className="flex items-center justify-between gap-2">
+                <code className="text-xs truncate">{selector}</code>
+                <button
+                  className="text-xs text-muted-foreground hover:text-red-600"
+                  onClick={() =>
+                    updateSite(site.domain, {
+                      selectors: site.selectors.filter((other) => other !== selector)
+                    })
+                  }>
+                  Remove
+                </button>
+              </div>
+            ))}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="e.g. .wiki-content"
+                value={newSelectors[site.domain] ?? ""}
+                onChange={(e) => setNewSelectors({ ...newSelectors, [site.domain]: e.target.value })}
+                onKeyDown={(e) => e.key === "Enter" && handleAddSelector(site)}
+                className="h-8 text-xs"
+              />
+              <Button variant="outline" size="sm" onClick={() => handleAddSelector(site)}>
+                <PlusIcon className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {testResult && (
+              <p className="text-xs text-muted-foreground">
+                {typeof testResult === "string"
+                  ? testResult
+                  : `${testResult.matches} match${testResult.matches === 1 ? "" : "es"}${testResult.preview ? `: ${testResult.preview}` : ""}`}
+              </p>
+            )}
+          </div>
+        )
+      })}
+
+      <div className="flex gap-2">
+        <Input
+          placeholder="Domain, e.g. wiki.example.com"
+          value={newDomain}
+          onChange={(e) => setNewDomain(e.target.value)}
+          className="h-8 text-xs"
+        />
+        <Button variant="outline" size="sm" onClick={handleAddSite}>
+          <PlusIcon className="w-4 h-4 mr-1" />
+          Add site
+        </Button>
+      </div>
+
+      <div className="space-y-2 pt-2">
+        <Label className="text-sm font-medium">Fallback Selectors</Label>
+        <p className="text-xs text-muted-foreground">
+          Tried on every site before the built-in selectors when no article is detected.
+        </p>
+        {customSelectors.map((selector) => (
+          <div key={selector} className="flex items-center justify-between gap-2">
+            <code className="text-xs truncate">{selector}</code>
+            <button
+              className="text-xs text-muted-foreground hover:text-red-600"
+              onClick={() =>
+                updateSettings({
+                  customSelectors: customSelectors.filter((other) => other !== selector)
+                })
+              }>
+              Remove
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2">
+          <Input
+            placeholder="e.g. #main-column"
+            value={newCustomSelector}
+            onChange={(e) => setNewCustomSelector(e.target.value)}
+            onKeyDown={(e) => e.key === "Enter" && handleAddCustomSelector()}
+            className="h-8 text-xs"
+          />
+          <Button variant="outline" size="sm" onClick={handleAddCustomSelector}>
+            <PlusIcon className="w-4 h-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  )
+}
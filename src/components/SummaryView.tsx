@@ -1,62 +1,228 @@
-import React, { useEffect, useState } from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { Button } from './ui/button'
 import { Badge } from './ui/badge'
-import { RefreshCw, MessageSquare, Clock, TrendingUp } from 'lucide-react'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/select'
+import { ChatPanel } from './ChatPanel'
+import { ComparisonView } from './ComparisonView'
+import { ExportControls } from './ExportControls'
+import {
+  RefreshCw,
+  MessageSquare,
+  Clock,
+  TrendingUp,
+  Layers,
+  FileText,
+  MessagesSquare,
+  Cpu,
+  Coins,
+  FileDiff,
+  History,
+  GitCompare
+} from 'lucide-react'
 import { useAppStore } from '../lib/store'
-import { formatTimeAgo, getSentimentColor, getSentimentEmoji } from '../lib/utils'
-import type { CommentData } from '../lib/types'
+import { isSummaryOfPage } from '../lib/cacheKeys'
+import { getComparableProviders } from '../lib/compare'
+import { getProviderAdapter, isProviderConfigured } from '../lib/providers'
+import { streamSummary } from '../lib/summary'
+import { listPromptTemplates } from '../lib/templates'
+import { formatCost } from '../lib/usage'
+import { formatTimeAgo, getHostname, getSentimentColor, getSentimentEmoji } from '../lib/utils'
+import type { CommentData, DiscussionInsights, GeneratedSummary, PageChanges, SummaryMode, SummaryResult } from '../lib/types'
 
 interface SummaryViewProps {
   currentUrl: string | null
+  currentTitle: string | null
+  currentCanonicalUrl?: string | null
   apiKeyValid: boolean | null
+  // Set by the parent to summarize a history entry's page again
+  rerunRequest?: RerunRequest | null
 }
 
-export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
+export interface RerunRequest {
+  summary: SummaryResult
+  // The tab showing the entry's page; the active tab when left out
+  tabId?: number
+}
+
+// What to summarize. The page and tab default to the active one.
+interface SummaryTarget {
+  url?: string
+  title?: string
+  tabId?: number
+  mode: SummaryMode
+  templateId?: string
+  // For "changes" summaries, the summary of the version to compare against
+  previousSummaryId?: string
+}
+
+const DISCUSSION_SECTIONS: { key: keyof DiscussionInsights; label: string }[] = [
+  { key: 'consensus', label: 'Consensus' },
+  { key: 'disagreements', label: 'Disagreements' },
+  { key: 'topPoints', label: 'Top Points' }
+]
+
+const CHANGE_SECTIONS: { key: keyof PageChanges; label: string; marker: string; className: string }[] = [
+  { key: 'added', label: 'Added', marker: '+', className: 'text-green-600' },
+  { key: 'removed', label: 'Removed', marker: '−', className: 'text-red-600' },
+  { key: 'changed', label: 'Changed', marker: '~', className: 'text-yellow-600' }
+]
+
+// Changelog of what a "changes" summary found, linking to the summary it compares against
+function ChangesCard({ changes, previousSummaryId }: { changes: PageChanges; previousSummaryId?: string }) {
+  const { getSummary, setCurrentSummary } = useAppStore()
+  const [previous, setPrevious] = useState<SummaryResult | null>(null)
+
+  useEffect(() => {
+    setPrevious(null)
+    if (previousSummaryId) getSummary(previousSummaryId).then(setPrevious)
+  }, [previousSummaryId])
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      {CHANGE_SECTIONS.map(({ key, label, marker, className }) => changes[key].length > 0 && (
+        <div key={key}>
+          <h4 className={`font-medium text-sm mb-1 ${className}`}>{label}</h4>
+          <ul className="space-y-1 text-sm text-muted-foreground">
+            {changes[key].map((item, index) => (
+              <li key={index} className="flex gap-2">
+                <span className={`font-mono ${className}`}>{marker}</span>
+                <span>{item}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      ))}
+
+      {previous ? (
+        <button
+          className="flex items-center gap-1 text-xs text-primary hover:underline"
+          onClick={() => setCurrentSummary(previous)}
+        >
+          <History className="h-3 w-3" />
+          Compared with the summary from {formatTimeAgo(previous.createdAt)}
+        </button>
+      ) : previousSummaryId && (
+        <p className="text-xs text-muted-foreground">The earlier summary has been deleted</p>
+      )}
+    </div>
+  )
+}
+
+function ModeToggle({
+  mode,
+  onChange,
+  disabled
+}: {
+  mode: SummaryMode
+  onChange: (mode: SummaryMode) => void
+  disabled?: boolean
+}) {
+  return (
+    <div className="inline-flex gap-1">
+      <Button
+        variant={mode === 'page' ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onChange('page')}
+        disabled={disabled}
+      >
+        <FileText className="h-3 w-3 mr-1" />
+        Page
+      </Button>
+      <Button
+        variant={mode === 'discussion' ? 'default' : 'outline'}
+        size="sm"
+        onClick={() => onChange('discussion')}
+        disabled={disabled}
+        title="Summarize the comment thread instead of the article"
+      >
+        <MessagesSquare className="h-3 w-3 mr-1" />
+        Discussion
+      </Button>
+    </div>
+  )
+}
+
+export function SummaryView({ currentUrl, currentTitle, currentCanonicalUrl, apiKeyValid, rerunRequest = null }: SummaryViewProps) {
   const {
     currentSummary,
     isGenerating,
     settings,
+    budgetStatus,
     addSummary,
     setCurrentSummary,
-    setGenerating,
-    getSummaryByUrl
+    setGenerating
   } = useAppStore()
   
   const [error, setError] = useState<string | null>(null)
-  const [title, setTitle] = useState<string>('')
+  const [streamingText, setStreamingText] = useState<string>('')
+  const [progress, setProgress] = useState<{ chunk: number; totalChunks: number } | null>(null)
+  const [mode, setMode] = useState<SummaryMode>('page')
+  const [templateId, setTemplateId] = useState<string | null>(null)
+  const [pageChanged, setPageChanged] = useState(false)
+  const [comparing, setComparing] = useState(false)
+  const portRef = useRef<chrome.runtime.Port | null>(null)
+
+  // Cancel any in-flight stream when the popup closes
+  useEffect(() => () => portRef.current?.disconnect(), [])
+
+  // A comparison belongs to the page it was started on
+  useEffect(() => setComparing(false), [currentUrl])
 
+  // Re-runs keep the mode of the summary being shown. Change summaries are
+  // asked for from the page-changed notice, so re-running one reads the page.
   useEffect(() => {
-    if (currentUrl) {
-      // Get page title
-      chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-        const pageTitle = tabs[0]?.title || new URL(currentUrl).hostname
-        setTitle(pageTitle)
-      })
-      
-      // Check if we already have a summary for this URL
-      loadExistingSummary(currentUrl)
+    if (currentSummary?.mode === 'changes') {
+      setMode('page')
+    } else if (currentSummary?.mode) {
+      setMode(currentSummary.mode)
     }
-  }, [currentUrl, getSummaryByUrl])
+  }, [currentSummary?.mode])
 
-  const loadExistingSummary = async (url: string) => {
-    try {
-      const existingSummary = await getSummaryByUrl(url)
-      if (existingSummary) {
-        setCurrentSummary(existingSummary)
-      }
-    } catch (error) {
-      console.error('Error loading existing summary:', error)
+  useEffect(() => {
+    if (currentSummary?.templateId) {
+      setTemplateId(currentSummary.templateId)
     }
-  }
+  }, [currentSummary?.templateId])
+
+  const isCurrentPage = !!currentSummary && !!currentUrl && isSummaryOfPage(currentSummary, currentUrl, currentCanonicalUrl)
 
-  const handleSummarize = async () => {
-    if (!currentUrl || !title) {
+  // A saved summary may predate edits to the page; re-read it to find out
+  useEffect(() => {
+    setPageChanged(false)
+    const contentHash = currentSummary?.contentHash
+    if (!isCurrentPage || !contentHash) return
+
+    let cancelled = false
+    chrome.tabs.query({ active: true, currentWindow: true }).then(async ([tab]) => {
+      if (!tab?.id || cancelled) return
+      const response = await chrome.runtime.sendMessage({
+        action: 'checkPageChanged',
+        tabId: tab.id,
+        url: currentUrl,
+        contentHash
+      })
+      if (!cancelled) setPageChanged(!!response?.changed)
+    }).catch((error) => console.warn('Could not check for page changes:', error))
+    return () => { cancelled = true }
+  }, [currentSummary?.id, isCurrentPage])
+
+  const title = currentTitle || (currentUrl ? getHostname(currentUrl) : '')
+
+  const summarize = async (target: SummaryTarget) => {
+    const url = target.url ?? currentUrl
+    const pageTitle = target.title ?? title
+    if (!url || !pageTitle) {
       setError('Unable to get current page information')
       return
     }
 
-    const currentProvider = settings?.llm?.providers?.[settings?.llm?.currentProvider]
-    if (!settings?.llm?.currentProvider || !currentProvider?.apiKey) {
+    if (!settings?.llm || !isProviderConfigured(settings.llm)) {
       setError('Please configure your LLM API key in Settings')
       return
     }
@@ -64,42 +230,114 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
     setError(null)
     setGenerating(true)
     setCurrentSummary(null)
+    setStreamingText('')
+    setProgress(null)
 
     try {
-      // Get current tab ID
-      const tabs = await chrome.tabs.query({ active: true, currentWindow: true })
-      const tabId = tabs[0]?.id
-      
+      const tabId = target.tabId ?? (await chrome.tabs.query({ active: true, currentWindow: true }))[0]?.id
+
       if (!tabId) {
         throw new Error('Unable to get current tab')
       }
 
-      // Send message to background script for processing
-      const summaryResult = await chrome.runtime.sendMessage({
-        action: 'summarizePage',
-        url: currentUrl,
-        title,
-        tabId
-      })
-
-      if (!summaryResult.success) {
-        throw new Error(summaryResult.error || 'Failed to generate summary')
-      }
+      // Stream the summary from the background script as it is generated
+      const summaryResult = await streamSummary(
+        {
+          url,
+          title: pageTitle,
+          tabId,
+          mode: target.mode,
+          templateId: target.templateId,
+          previousSummaryId: target.previousSummaryId
+        },
+        (text) => setStreamingText((previous) => previous + text),
+        (port) => { portRef.current = port },
+        (chunk, totalChunks) => setProgress({ chunk, totalChunks })
+      )
 
-      setCurrentSummary(summaryResult)
+      // Persist the result so it shows up in History and on the next visit
+      const { id, createdAt, ...summaryData } = summaryResult
+      const savedSummary = await addSummary(summaryData)
+      setCurrentSummary(savedSummary ?? summaryResult)
     } catch (error) {
       console.error('Summarization error:', error)
       setError(error instanceof Error ? error.message : 'Failed to summarize page')
     } finally {
+      portRef.current = null
+      setStreamingText('')
+      setProgress(null)
       setGenerating(false)
     }
   }
 
+  const handleSummarize = () => summarize({ mode, templateId: templateId ?? settings.defaultTemplateId })
+
+  // Summarize only what has changed since the given summary
+  const handleSummarizeChanges = (previousSummaryId: string) => summarize({ mode: 'changes', previousSummaryId })
+
+  // Re-run a history entry on its own page with the mode and template it used
+  useEffect(() => {
+    if (!rerunRequest) return
+    const { summary, tabId } = rerunRequest
+    const rerunMode = summary.mode === 'changes' && !summary.previousSummaryId ? 'page' : summary.mode ?? 'page'
+    summarize({
+      url: summary.url,
+      title: summary.title,
+      tabId,
+      mode: rerunMode,
+      templateId: rerunMode === 'page' ? summary.templateId ?? settings.defaultTemplateId : undefined,
+      previousSummaryId: rerunMode === 'changes' ? summary.previousSummaryId : undefined
+    })
+  }, [rerunRequest])
+
+  // Save the comparison result the user prefers, like any other summary
+  const handleKeepComparison = async (summary: GeneratedSummary) => {
+    const { id, createdAt, ...summaryData } = summary
+    const savedSummary = await addSummary(summaryData)
+    setCurrentSummary(savedSummary ?? summary)
+    setComparing(false)
+  }
+
   const handleRefresh = () => {
     setCurrentSummary(null)
     handleSummarize()
   }
 
+  const summaryOptions = (
+    <div className="flex items-center gap-2">
+      <ModeToggle mode={mode} onChange={setMode} disabled={isGenerating} />
+      {mode === 'page' && (
+        <Select
+          value={templateId ?? settings.defaultTemplateId}
+          onValueChange={setTemplateId}
+          disabled={isGenerating}
+        >
+          <SelectTrigger className="h-9 w-32 text-xs" title="Prompt template">
+            <SelectValue placeholder="Template" />
+          </SelectTrigger>
+          <SelectContent>
+            {listPromptTemplates(settings).map((template) => (
+              <SelectItem key={template.id} value={template.id}>
+                {template.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+      {mode === 'page' && getComparableProviders(settings.llm).length >= 2 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setComparing(true)}
+          disabled={isGenerating}
+          title="Compare summaries from several providers"
+        >
+          <GitCompare className="h-3 w-3" />
+        </Button>
+      )}
+    </div>
+  )
+
   if (!currentUrl) {
     return (
       <div className="text-center py-8">
@@ -111,6 +349,59 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
     )
   }
 
+  if (comparing) {
+    return (
+      <ComparisonView
+        url={currentUrl}
+        title={title}
+        templateId={templateId ?? settings.defaultTemplateId}
+        onKeep={handleKeepComparison}
+        onClose={() => setComparing(false)}
+      />
+    )
+  }
+
+  if (isGenerating && progress && !streamingText) {
+    return (
+      <div className="text-center py-8">
+        <RefreshCw className="h-8 w-8 mx-auto mb-4 animate-spin text-primary" />
+        <h3 className="font-medium mb-2">Reading a long page</h3>
+        <p className="text-sm text-muted-foreground">
+          Summarizing part {progress.chunk} of {progress.totalChunks}...
+        </p>
+      </div>
+    )
+  }
+
+  if (isGenerating && streamingText) {
+    return (
+      <div className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div className="flex-1">
+            <h3 className="text-base font-medium leading-tight">
+              {title}
+            </h3>
+            <p className="text-xs text-muted-foreground mt-1">
+              Generating...
+            </p>
+          </div>
+          <RefreshCw className="h-4 w-4 animate-spin text-muted-foreground" />
+        </div>
+
+        <div>
+          <h4 className="font-medium text-sm mb-2">Summary</h4>
+          <p className="text-sm leading-relaxed text-muted-foreground whitespace-pre-wrap">
+            {streamingText}
+          </p>
+        </div>
+
+        <p className="text-xs text-muted-foreground">
+          Sentiment and key themes will appear when the summary is complete
+        </p>
+      </div>
+    )
+  }
+
   if (currentSummary) {
     return (
       <div className="space-y-4">
@@ -123,22 +414,37 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
               <p className="text-xs text-muted-foreground mt-1">
                 {formatTimeAgo(currentSummary.createdAt)}
               </p>
+              {(currentSummary.metadata?.byline || currentSummary.metadata?.siteName) && (
+                <p className="text-xs text-muted-foreground">
+                  {[currentSummary.metadata.byline, currentSummary.metadata.siteName].filter(Boolean).join(' · ')}
+                </p>
+              )}
             </div>
             <Button
               variant="ghost"
               size="sm"
               onClick={handleRefresh}
               disabled={isGenerating}
+              title={`Summarize again in ${mode} mode`}
             >
               <RefreshCw className={`h-4 w-4 ${isGenerating ? 'animate-spin' : ''}`} />
             </Button>
           </div>
+
+          {summaryOptions}
           
-          <div className="flex items-center gap-2 text-sm">
-            <Badge variant="secondary" className="gap-1">
-              <MessageSquare className="h-3 w-3" />
-              {currentSummary.commentCount} items
-            </Badge>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            {currentSummary.commentCount > 0 ? (
+              <Badge variant="secondary" className="gap-1">
+                <MessageSquare className="h-3 w-3" />
+                {currentSummary.commentCount} comments
+              </Badge>
+            ) : currentSummary.wordCount ? (
+              <Badge variant="secondary" className="gap-1">
+                <FileText className="h-3 w-3" />
+                {currentSummary.wordCount} words
+              </Badge>
+            ) : null}
             
             <Badge 
               variant="outline" 
@@ -152,15 +458,96 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
               <Clock className="h-3 w-3" />
               {currentSummary.processingTime}ms
             </Badge>
+            
+            {(currentSummary.chunkCount ?? 1) > 1 && (
+              <Badge variant="outline" className="gap-1">
+                <Layers className="h-3 w-3" />
+                {currentSummary.chunkCount} parts
+              </Badge>
+            )}
+
+            {currentSummary.provider && (
+              <Badge
+                variant="outline"
+                className="gap-1 max-w-full"
+                title={`Written by ${getProviderAdapter(currentSummary.provider).label} ${currentSummary.model ?? ''}`}
+              >
+                <Cpu className="h-3 w-3 shrink-0" />
+                <span className="truncate">
+                  {getProviderAdapter(currentSummary.provider).label} · {currentSummary.model}
+                </span>
+              </Badge>
+            )}
+
+            {currentSummary.usage && (
+              <Badge
+                variant="outline"
+                className="gap-1"
+                title={`${currentSummary.usage.inputTokens} input / ${currentSummary.usage.outputTokens} output tokens${currentSummary.usage.estimated ? ' (estimated)' : ''}`}
+              >
+                <Coins className="h-3 w-3" />
+                {currentSummary.usage.cost !== null
+                  ? formatCost(currentSummary.usage.cost)
+                  : `${currentSummary.usage.inputTokens + currentSummary.usage.outputTokens} tokens`}
+              </Badge>
+            )}
           </div>
           
+          {currentSummary.contentTruncated && (
+            <p className="text-xs text-yellow-600">
+              This page was too long to read in full; the end of the content was not included in the summary.
+            </p>
+          )}
+
+          {pageChanged && (
+            <div className="flex items-center justify-between gap-2 rounded-md border border-yellow-300 bg-yellow-50 px-3 py-2">
+              <p className="flex items-center gap-2 text-xs text-yellow-800">
+                <FileDiff className="h-3 w-3 shrink-0" />
+                Page changed since summarized
+              </p>
+              <div className="flex gap-1">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => handleSummarizeChanges(currentSummary.id)}
+                  disabled={isGenerating}
+                  title="Summarize only what was added, removed or changed"
+                >
+                  What changed
+                </Button>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={handleRefresh} disabled={isGenerating}>
+                  Re-run
+                </Button>
+              </div>
+            </div>
+          )}
+          
           <div>
             <h4 className="font-medium text-sm mb-2">Summary</h4>
-            <p className="text-sm leading-relaxed text-muted-foreground">
+            <p className="text-sm leading-relaxed text-muted-foreground whitespace-pre-wrap">
               {currentSummary.summary}
             </p>
           </div>
           
+          {currentSummary.changes && (
+            <ChangesCard changes={currentSummary.changes} previousSummaryId={currentSummary.previousSummaryId} />
+          )}
+
+          {currentSummary.discussion && DISCUSSION_SECTIONS.map(({ key, label }) => {
+            const points = currentSummary.discussion?.[key] ?? []
+            return points.length > 0 && (
+              <div key={key}>
+                <h4 className="font-medium text-sm mb-2">{label}</h4>
+                <ul className="list-disc pl-4 space-y-1 text-sm text-muted-foreground">
+                  {points.map((point, index) => (
+                    <li key={index}>{point}</li>
+                  ))}
+                </ul>
+              </div>
+            )
+          })}
+
           {currentSummary.keyThemes.length > 0 && (
             <div>
               <h4 className="font-medium text-sm mb-2">Key Themes</h4>
@@ -173,6 +560,13 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
               </div>
             </div>
           )}
+
+          <ExportControls summaries={[currentSummary]} />
+
+          <ChatPanel
+            summary={currentSummary}
+            canAsk={isCurrentPage && !isGenerating}
+          />
         </div>
       </div>
     )
@@ -191,7 +585,7 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
             </p>
           ) : (
             <Button 
-              onClick={handleSummarize} 
+              onClick={() => handleSummarize()} 
               disabled={isGenerating || apiKeyValid !== true}
             >
               {isGenerating ? (
@@ -210,8 +604,11 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
           <p className="text-sm text-muted-foreground mb-4">
             Click below to analyze this page
           </p>
+          <div className="mb-4 flex justify-center">
+            {summaryOptions}
+          </div>
           <Button 
-            onClick={handleSummarize} 
+            onClick={() => handleSummarize()} 
             disabled={isGenerating || apiKeyValid !== true}
           >
             {isGenerating ? (
@@ -226,6 +623,12 @@ export function SummaryView({ currentUrl, apiKeyValid }: SummaryViewProps) {
               Configure a valid API key in Settings to enable summarization
             </p>
           )}
+          {budgetStatus?.exceeded && (
+            <p className="text-xs text-red-600 mt-2">
+              {formatCost(budgetStatus.spent)} of your {formatCost(budgetStatus.limit)} monthly budget spent
+              {budgetStatus.blocked ? '; raise it on the Usage tab to summarize' : ''}
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -0,0 +1,214 @@
+import React, { useEffect, useState } from 'react'
+import { Button } from './ui/button'
+import { Card, CardContent } from './ui/card'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from './ui/select'
+import { BarChart3, Trash2 } from 'lucide-react'
+import { useAppStore } from '../lib/store'
+import { getProviderAdapter } from '../lib/providers'
+import { buildUsageReport, formatCost, usageStorage, type UsageReport, type UsageRow } from '../lib/usage'
+import type { LLMProvider, UsageBudget } from '../lib/types'
+
+type UsagePeriod = 'month' | '30days' | 'all'
+
+const PERIODS: { value: UsagePeriod; label: string }[] = [
+  { value: 'month', label: 'This month' },
+  { value: '30days', label: 'Last 30 days' },
+  { value: 'all', label: 'All time' }
+]
+
+function getPeriodStart(period: UsagePeriod): string | undefined {
+  const now = new Date()
+  if (period === 'month') return new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+  if (period === '30days') return new Date(now.getTime() - 30 * 24 * 60 * 60 * 1000).toISOString()
+  return undefined
+}
+
+function formatTokens(tokens: number): string {
+  return tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}K` : String(tokens)
+}
+
+function UsageTable({ title, rows, formatKey = (key) => key }: {
+  title: string
+  rows: UsageRow[]
+  formatKey?: (key: string) => string
+}) {
+  if (rows.length === 0) return null
+
+  return (
+    <div className="space-y-1">
+      <h4 className="font-medium text-sm">{title}</h4>
+      {rows.map((row) => (
+        <div key={row.key} className="flex items-center justify-between gap-2 text-xs">
+          <span className="truncate flex-1">{formatKey(row.key)}</span>
+          <span className="text-muted-foreground">{row.calls} calls</span>
+          <span className="text-muted-foreground w-16 text-right">
+            {formatTokens(row.inputTokens + row.outputTokens)}
+          </span>
+          <span
+            className="w-16 text-right font-medium"
+            title={row.unpricedCalls > 0 ? `${row.unpricedCalls} calls used a model with unknown pricing` : undefined}
+          >
+            {formatCost(row.cost)}
+            {row.unpricedCalls > 0 && '*'}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
+
+export function UsageView() {
+  const { settings, updateSettings, budgetStatus } = useAppStore()
+  const [period, setPeriod] = useState<UsagePeriod>('month')
+  const [report, setReport] = useState<UsageReport | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    const loadReport = async () => {
+      const records = await usageStorage.getUsage(getPeriodStart(period))
+      if (!cancelled) setReport(buildUsageReport(records))
+    }
+
+    loadReport()
+    const unsubscribe = usageStorage.subscribe(loadReport)
+    return () => {
+      cancelled = true
+      unsubscribe()
+    }
+  }, [period])
+
+  const saveBudget = (updates: Partial<UsageBudget>) =>
+    updateSettings({ usageBudget: { ...settings.usageBudget, ...updates } })
+
+  const handleClear = async () => {
+    if (confirm('Delete all recorded usage?')) {
+      await usageStorage.clearUsage()
+    }
+  }
+
+  const { usageBudget } = settings
+  const budgetUsed = budgetStatus ? Math.min(budgetStatus.spent / budgetStatus.limit, 1) : 0
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardContent className="p-3 space-y-2">
+          <Label htmlFor="monthlyBudget">Monthly Budget (USD)</Label>
+          <div className="flex gap-2">
+            {/* Uncontrolled and saved on blur so the budget isn't re-checked per keystroke */}
+            <Input
+              id="monthlyBudget"
+              type="number"
+              min="0"
+              step="0.5"
+              placeholder="No budget"
+              defaultValue={usageBudget.monthlyLimit ?? ''}
+              key={usageBudget.monthlyLimit ?? 'none'}
+              onBlur={(e) => {
+                const value = e.target.value.trim()
+                const monthlyLimit = value === '' ? null : Math.max(0, Number(value))
+                if (monthlyLimit !== usageBudget.monthlyLimit && !Number.isNaN(monthlyLimit)) {
+                  saveBudget({ monthlyLimit })
+                }
+              }}
+              className="flex-1"
+            />
+            <Select
+              value={usageBudget.onExceeded}
+              onValueChange={(value: UsageBudget['onExceeded']) => saveBudget({ onExceeded: value })}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="warn">Warn when over</SelectItem>
+                <SelectItem value="block">Block when over</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {budgetStatus && (
+            <>
+              <div className="h-2 rounded bg-muted overflow-hidden">
+                <div
+                  className={`h-full ${budgetStatus.exceeded ? 'bg-red-500' : 'bg-primary'}`}
+                  style={{ width: `${budgetUsed * 100}%` }}
+                />
+              </div>
+              <p className={`text-xs ${budgetStatus.exceeded ? 'text-red-600' : 'text-muted-foreground'}`}>
+                {formatCost(budgetStatus.spent)} of {formatCost(budgetStatus.limit)} spent this month
+                {budgetStatus.blocked && ' — new requests are blocked until next month'}
+              </p>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="flex items-center justify-between gap-2">
+        <Select value={period} onValueChange={(value: UsagePeriod) => setPeriod(value)}>
+          <SelectTrigger className="w-36">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {PERIODS.map(({ value, label }) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="ghost" size="sm" className="text-red-600" onClick={handleClear} title="Delete recorded usage">
+          <Trash2 className="h-3 w-3" />
+        </Button>
+      </div>
+
+      {!report || report.total.calls === 0 ? (
+        <div className="text-center py-8">
+          <BarChart3 className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+          <p className="text-muted-foreground">No usage recorded for this period</p>
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div>
+              <p className="text-lg font-semibold">{formatCost(report.total.cost)}</p>
+              <p className="text-xs text-muted-foreground">Estimated cost</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">{report.total.calls}</p>
+              <p className="text-xs text-muted-foreground">Calls</p>
+            </div>
+            <div>
+              <p className="text-lg font-semibold">
+                {formatTokens(report.total.inputTokens + report.total.outputTokens)}
+              </p>
+              <p className="text-xs text-muted-foreground">Tokens</p>
+            </div>
+          </div>
+
+          <UsageTable
+            title="By provider"
+            rows={report.byProvider}
+            formatKey={(key) => getProviderAdapter(key as LLMProvider).label}
+          />
+          <UsageTable title="By day" rows={report.byDay} />
+          <UsageTable title="By domain" rows={report.byDomain} />
+
+          {report.total.unpricedCalls > 0 && (
+            <p className="text-xs text-muted-foreground">
+              * Includes calls to models with unknown pricing, which are counted as free.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
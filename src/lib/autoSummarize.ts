@@ -0,0 +1,84 @@
+import { matchesDomain } from './siteRules'
+
+// Wait for a page to settle (redirects, client-side routing) before summarizing it
+export const AUTO_SUMMARIZE_DELAY_MS = 2000
+
+// At most this many automatic summaries per domain in any rolling window
+const MAX_AUTO_SUMMARIES_PER_DOMAIN = 5
+const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000
+
+// Recent automatic summaries per hostname, kept for the browser session
+const AUTO_SUMMARIZE_LOG_KEY = 'autoSummarizeLog'
+
+interface ParsedPattern {
+  scheme: 'http' | 'https' | '*'
+  host: string
+  path: RegExp | null
+}
+
+// Patterns are a domain ("example.com", subdomains included) optionally
+// followed by a path with * wildcards ("example.com/blog/*"), and may start
+// with http:// or https://
+function parsePattern(pattern: string): ParsedPattern | null {
+  const match = pattern.trim().toLowerCase().match(/^(?:(https?|\*):\/\/)?([^/]+)(\/.*)?$/)
+  if (!match) return null
+
+  const [, scheme = '*', rawHost, path] = match
+  const host = rawHost.replace(/^\*\./, '').replace(/:\d+$/, '')
+  if (!/^[a-z0-9-]+(\.[a-z0-9-]+)*$/.test(host)) return null
+
+  return {
+    scheme: scheme as ParsedPattern['scheme'],
+    host,
+    // Paths match as prefixes, so "/blog" also covers "/blog/post"
+    path: path
+      ? new RegExp(`^${path.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}`)
+      : null
+  }
+}
+
+export function isValidAutoSummarizePattern(pattern: string): boolean {
+  return parsePattern(pattern) !== null
+}
+
+export function matchesAutoSummarizePattern(url: string, pattern: string): boolean {
+  const parsed = parsePattern(pattern)
+  if (!parsed) return false
+
+  let target: URL
+  try {
+    target = new URL(url)
+  } catch {
+    return false
+  }
+
+  const scheme = target.protocol.slice(0, -1)
+  if (scheme !== 'http' && scheme !== 'https') return false
+  if (parsed.scheme !== '*' && parsed.scheme !== scheme) return false
+  if (!matchesDomain(target.hostname, parsed.host)) return false
+  return !parsed.path || parsed.path.test(`${target.pathname}${target.search}`.toLowerCase())
+}
+
+export function shouldAutoSummarize(url: string, patterns: string[]): boolean {
+  return patterns.some(pattern => matchesAutoSummarizePattern(url, pattern))
+}
+
+// Host permission needed to read matching pages in the background
+export function getAutoSummarizeOrigin(pattern: string): string | null {
+  const parsed = parsePattern(pattern)
+  return parsed ? `${parsed.scheme}://*.${parsed.host}/*` : null
+}
+
+// Claim one of the domain's automatic summaries for this window; false once
+// the limit is reached
+export async function takeAutoSummarizeSlot(hostname: string): Promise<boolean> {
+  const now = Date.now()
+  const stored = await chrome.storage.session.get(AUTO_SUMMARIZE_LOG_KEY)
+  const log: Record<string, number[]> = stored[AUTO_SUMMARIZE_LOG_KEY] ?? {}
+  const recent = (log[hostname] ?? []).filter(time => now - time < RATE_LIMIT_WINDOW_MS)
+
+  if (recent.length >= MAX_AUTO_SUMMARIES_PER_DOMAIN) return false
+
+  await chrome.storage.session.set({ [AUTO_SUMMARIZE_LOG_KEY]: { ...log, [hostname]: [...recent, now] } })
+  return true
+}
@@ -0,0 +1,85 @@
+import type { BatchScope, BatchState, SummaryResult } from './types'
+
+// chrome.storage.session key holding the latest batch. The popup may close
+// while it runs, so progress lives here rather than on a port.
+export const BATCH_STATE_KEY = 'batchSummary'
+
+// Tabs summarized at once; more would trip provider rate limits
+export const BATCH_CONCURRENCY = 3
+
+export const MAX_BATCH_TABS = 20
+
+// Chrome hides other tabs' URLs and content without host access, so a batch
+// asks for every site up front
+export const ALL_SITES_ORIGINS = ['http://*/*', 'https://*/*']
+
+// Chrome's groupId for tabs that aren't in a group
+export const NO_TAB_GROUP = -1
+
+export function isBatchRunning(state: BatchState | null): boolean {
+  return state?.status === 'summarizing' || state?.status === 'digesting'
+}
+
+// Pages the extension can read; other tabs (chrome://, the Web Store, PDFs
+// opened from disk) are skipped
+export function isSummarizableUrl(url: string | undefined): url is string {
+  return !!url && /^https?:\/\//.test(url)
+}
+
+export function getBatchScopeLabel(scope: BatchScope): string {
+  return scope === 'group' ? 'tab group' : 'window'
+}
+
+// Run tasks with at most `limit` in flight, in order of the items
+export async function runWithConcurrency<T>(items: T[], limit: number, task: (item: T) => Promise<void>): Promise<void> {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) {
+      await task(items[next++])
+    }
+  }
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker))
+}
+
+// Numbered source list the digest prompt cites from
+export function formatDigestSources(summaries: SummaryResult[]): string {
+  return summaries
+    .map((summary, index) => [
+      `[${index + 1}] ${summary.title}`,
+      `URL: ${summary.url}`,
+      summary.keyThemes.length > 0 ? `Themes: ${summary.keyThemes.join(', ')}` : '',
+      summary.summary
+    ].filter(Boolean).join('\n'))
+    .join('\n\n')
+}
+
+export async function getBatchState(): Promise<BatchState | null> {
+  const stored = await chrome.storage.session.get(BATCH_STATE_KEY)
+  return stored[BATCH_STATE_KEY] ?? null
+}
+
+export function subscribeToBatch(callback: (state: BatchState | null) => void): () => void {
+  const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'session' && BATCH_STATE_KEY in changes) {
+      callback(changes[BATCH_STATE_KEY].newValue ?? null)
+    }
+  }
+  chrome.storage.onChanged.addListener(handleChanged)
+  return () => chrome.storage.onChanged.removeListener(handleChanged)
+}
+
+// Ask the background worker to summarize the tabs around the given one
+export async function startBatch(scope: BatchScope, tabId: number): Promise<void> {
+  const response = await chrome.runtime.sendMessage({ action: 'summarizeTabs', scope, tabId })
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to start summarizing tabs')
+  }
+}
+
+export async function cancelBatch(): Promise<void> {
+  await chrome.runtime.sendMessage({ action: 'cancelBatch' })
+}
+
+export async function clearBatch(): Promise<void> {
+  await chrome.storage.session.remove(BATCH_STATE_KEY)
+}
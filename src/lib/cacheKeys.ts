@@ -0,0 +1,79 @@
+// Summaries are cached under a canonical form of the page URL, and remember a
+// hash of the content they were written from so edits can be noticed
+
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'igshid',
+  'mc_cid', 'mc_eid', '_ga', '_gl', '_hsenc', '_hsmi', 'mkt_tok', 'oly_anon_id', 'oly_enc_id',
+  'ref', 'ref_src', 'ref_url', 'si', 'spm', 'vero_id'
+])
+
+function isTrackingParam(name: string): boolean {
+  const lower = name.toLowerCase()
+  return lower.startsWith('utm_') || TRACKING_PARAMS.has(lower)
+}
+
+// Drop the fragment, tracking parameters and default port, and sort what's
+// left so parameter order doesn't matter. Unparseable input is returned as is.
+export function canonicalizeUrl(url: string): string {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+  if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return url
+
+  parsed.hash = ''
+  const params = [...parsed.searchParams.entries()]
+    .filter(([name]) => !isTrackingParam(name))
+    .sort(([a], [b]) => a.localeCompare(b))
+  parsed.search = new URLSearchParams(params).toString()
+  return parsed.toString()
+}
+
+// Prefer the page's <link rel="canonical"> when it points at the same site,
+// so a page reached through different paths shares one cache entry. Links
+// to other sites are ignored; they can't be trusted to describe this page.
+export function resolveCanonicalUrl(url: string, canonicalLink?: string | null): string {
+  if (canonicalLink) {
+    try {
+      const link = new URL(canonicalLink, url)
+      const stripWww = (hostname: string) => hostname.replace(/^www\./, '')
+      if (stripWww(link.hostname) === stripWww(new URL(url).hostname)) {
+        return canonicalizeUrl(link.toString())
+      }
+    } catch {
+      // Fall through to the page URL
+    }
+  }
+  return canonicalizeUrl(url)
+}
+
+// SHA-256 of the content with whitespace collapsed, as hex
+export async function hashContent(content: string): Promise<string> {
+  const normalized = content.replace(/\s+/g, ' ').trim()
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(normalized))
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('')
+}
+
+// Whether a stored summary was written for the page at this URL, or for
+// another URL with the same canonical link
+export function isSummaryOfPage(
+  summary: { url: string; canonicalUrl?: string },
+  url: string,
+  canonicalUrl?: string | null
+): boolean {
+  const canonical = canonicalizeUrl(url)
+  return summary.url === url ||
+    canonicalizeUrl(summary.url) === canonical ||
+    summary.canonicalUrl === canonical ||
+    (!!canonicalUrl && summary.canonicalUrl === canonicalUrl)
+}
+
+// The cache key for the page in a tab, read by the background worker from
+// its <link rel="canonical">. Null when the page can't be read.
+export async function requestCanonicalUrl(tabId: number, url: string): Promise<string | null> {
+  const response = await chrome.runtime.sendMessage({ action: 'getCanonicalUrl', tabId, url }).catch(() => null)
+  return response?.canonicalUrl ?? null
+}
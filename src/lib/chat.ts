@@ -0,0 +1,57 @@
+import type { ChatMessage } from './types'
+
+// Name of the chrome.runtime port the popup opens for follow-up questions
+export const CHAT_PORT_NAME = 'chat'
+
+// Messages the background worker posts on the chat port
+export type ChatStreamMessage =
+  | { type: 'token'; text: string }
+  | { type: 'done'; message: ChatMessage }
+  | { type: 'error'; error: string }
+
+export interface ChatRequest {
+  url: string
+  title: string
+  tabId: number
+  // The page summary, sent as context alongside the page content
+  summary: string
+  history: ChatMessage[]
+  question: string
+}
+
+// Ask one follow-up question and stream the answer. Resolves with the
+// assistant's message; disconnecting the port cancels the request.
+export function streamChatReply(
+  request: ChatRequest,
+  onToken: (text: string) => void,
+  onPort?: (port: chrome.runtime.Port) => void
+): Promise<ChatMessage> {
+  return new Promise((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: CHAT_PORT_NAME })
+    let settled = false
+    onPort?.(port)
+
+    port.onMessage.addListener((message: ChatStreamMessage) => {
+      if (message.type === 'token') {
+        onToken(message.text)
+        return
+      }
+
+      settled = true
+      port.disconnect()
+      if (message.type === 'done') {
+        resolve(message.message)
+      } else {
+        reject(new Error(message.error || 'Failed to answer question'))
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      if (!settled) {
+        reject(new Error('Connection to background worker was lost'))
+      }
+    })
+
+    port.postMessage({ action: 'askQuestion', ...request })
+  })
+}
@@ -0,0 +1,80 @@
+// Rough token estimate; close enough for budgeting without shipping a tokenizer
+const CHARS_PER_TOKEN = 4
+
+// Boundaries to split on, from the most to the least meaningful
+const SEPARATORS = [
+  { pattern: /\n(?=#{1,6}\s)/, joiner: '\n' }, // Markdown headings
+  { pattern: /\n{2,}/, joiner: '\n\n' }, // Paragraphs
+  { pattern: /\n/, joiner: '\n' }, // Lines
+  { pattern: /(?<=[.!?])\s+/, joiner: ' ' }, // Sentences
+  { pattern: /\s+/, joiner: ' ' } // Words
+]
+
+export interface ChunkBudget {
+  contextWindow: number
+  reservedTokens: number
+  maxChunks: number
+  maxChunkTokens?: number
+}
+
+export interface ChunkPlan {
+  chunks: string[]
+  chunkTokens: number
+  truncated: boolean
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+function splitText(text: string, maxChars: number, separatorIndex: number): string[] {
+  if (text.length <= maxChars) return [text]
+
+  const separator = SEPARATORS[separatorIndex]
+  if (!separator) {
+    // No boundary left to split on, so cut hard
+    const pieces: string[] = []
+    for (let start = 0; start < text.length; start += maxChars) {
+      pieces.push(text.slice(start, start + maxChars))
+    }
+    return pieces
+  }
+
+  const chunks: string[] = []
+  let current = ''
+
+  for (const section of text.split(separator.pattern)) {
+    if (!section.trim()) continue
+    const joiner = current ? separator.joiner : ''
+
+    if (current.length + joiner.length + section.length <= maxChars) {
+      current += joiner + section
+      continue
+    }
+
+    if (current) chunks.push(current)
+    if (section.length > maxChars) {
+      chunks.push(...splitText(section, maxChars, separatorIndex + 1))
+      current = ''
+    } else {
+      current = section
+    }
+  }
+
+  if (current) chunks.push(current)
+  return chunks
+}
+
+// Split content into chunks that fit the model's context, preferring section
+// boundaries. Anything past maxChunks is dropped and reported as truncated.
+export function planChunks(content: string, budget: ChunkBudget): ChunkPlan {
+  const available = Math.max(budget.contextWindow - budget.reservedTokens, 1000)
+  const chunkTokens = budget.maxChunkTokens ? Math.min(available, budget.maxChunkTokens) : available
+
+  const chunks = splitText(content.trim(), chunkTokens * CHARS_PER_TOKEN, 0)
+  return {
+    chunks: chunks.slice(0, budget.maxChunks),
+    chunkTokens,
+    truncated: chunks.length > budget.maxChunks
+  }
+}
@@ -0,0 +1,23 @@
+import type { CommentData } from './types'
+
+// Longest comment body sent to the model; long rants add little signal
+const MAX_COMMENT_CHARS = 1200
+
+export function countComments(comments: CommentData[]): number {
+  return comments.reduce((total, comment) => total + 1 + countComments(comment.replies ?? []), 0)
+}
+
+// Indented outline of the thread, one comment per line, replies nested under parents
+export function formatCommentThread(comments: CommentData[], depth = 0): string {
+  return comments.map(comment => {
+    const details = [comment.author ?? 'anonymous', comment.score !== undefined ? `${comment.score} points` : '']
+      .filter(Boolean)
+      .join(', ')
+    const text = comment.text.length > MAX_COMMENT_CHARS
+      ? `${comment.text.slice(0, MAX_COMMENT_CHARS)}…`
+      : comment.text
+    const line = `${'  '.repeat(depth)}- [${details}] ${text}`
+    const replies = comment.replies?.length ? `\n${formatCommentThread(comment.replies, depth + 1)}` : ''
+    return line + replies
+  }).join('\n')
+}
@@ -0,0 +1,86 @@
+import { getProviderAdapter } from './providers'
+import type { GeneratedSummary, LLMProvider, LLMSettings, SummaryResult } from './types'
+
+// More columns than this don't fit side by side in the popup
+export const MAX_COMPARED_PROVIDERS = 3
+
+// One provider's attempt at the shared page
+export interface ComparisonEntry {
+  provider: LLMProvider
+  summary?: GeneratedSummary
+  error?: string
+}
+
+export interface ComparisonAgreement {
+  // Whether every summary gave the same sentiment
+  sentimentAgrees: boolean
+  // Themes that more than one summary named
+  sharedThemes: string[]
+  // Average pairwise overlap of the theme lists, from 0 to 1
+  themeOverlap: number
+}
+
+export interface CompareRequest {
+  url: string
+  title: string
+  tabId: number
+  templateId?: string
+  providers: LLMProvider[]
+}
+
+// The current provider plus every other provider with a validated key
+export function getComparableProviders(llm: LLMSettings): LLMProvider[] {
+  return (Object.keys(llm.providers) as LLMProvider[]).filter(provider => {
+    const settings = llm.providers[provider]
+    return getProviderAdapter(provider).isConfigured(settings) &&
+      (provider === llm.currentProvider || settings.apiKeyValid === true)
+  })
+}
+
+// Models word themes differently; compare them case- and punctuation-insensitively
+export function normalizeTheme(theme: string): string {
+  return theme.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim()
+}
+
+function overlap(a: Set<string>, b: Set<string>): number {
+  const union = new Set([...a, ...b])
+  if (union.size === 0) return 1
+  return [...a].filter(theme => b.has(theme)).length / union.size
+}
+
+export function compareSummaries(summaries: SummaryResult[]): ComparisonAgreement {
+  const themeSets = summaries.map(summary => new Set(summary.keyThemes.map(normalizeTheme)))
+
+  const pairs: number[] = []
+  themeSets.forEach((a, i) => themeSets.slice(i + 1).forEach(b => pairs.push(overlap(a, b))))
+
+  // Count each summary once per theme, keeping the first wording seen
+  const counts = new Map<string, { theme: string; count: number }>()
+  for (const summary of summaries) {
+    const seen = new Set<string>()
+    for (const theme of summary.keyThemes) {
+      const key = normalizeTheme(theme)
+      if (seen.has(key)) continue
+      seen.add(key)
+      const entry = counts.get(key) ?? { theme, count: 0 }
+      entry.count++
+      counts.set(key, entry)
+    }
+  }
+
+  return {
+    sentimentAgrees: new Set(summaries.map(summary => summary.sentiment)).size <= 1,
+    sharedThemes: [...counts.values()].filter(({ count }) => count > 1).map(({ theme }) => theme),
+    themeOverlap: pairs.length > 0 ? pairs.reduce((sum, value) => sum + value, 0) / pairs.length : 1
+  }
+}
+
+// Summarize the page with each provider at once. Nothing is saved until the
+// user keeps one of the results.
+export async function requestComparison(request: CompareRequest): Promise<ComparisonEntry[]> {
+  const response = await chrome.runtime.sendMessage({ action: 'compareSummaries', ...request })
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to compare providers')
+  }
+  return response.entries
+}
@@ -0,0 +1,89 @@
+import { canonicalizeUrl } from './cacheKeys'
+
+const DB_NAME = 'chrome-llm-starter'
+const DB_VERSION = 4
+
+export const SUMMARIES_STORE = 'summaries'
+export const TOKENS_STORE = 'summary_tokens'
+export const USAGE_STORE = 'usage'
+export const SNAPSHOTS_STORE = 'snapshots'
+
+// One row per token in the inverted index: every summary id whose title or
+// summary text contains it.
+export interface TokenEntry {
+  token: string
+  ids: string[]
+}
+
+// Extracted page content a summary was written from, shared by every summary
+// with the same content hash
+export interface ContentSnapshot {
+  contentHash: string
+  content: string
+  createdAt: string
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function upgrade(db: IDBDatabase, oldVersion: number, transaction: IDBTransaction) {
+  if (oldVersion < 1) {
+    const summaries = db.createObjectStore(SUMMARIES_STORE, { keyPath: 'id' })
+    summaries.createIndex('url', 'url')
+    summaries.createIndex('hostname', 'hostname')
+    summaries.createIndex('createdAt', 'createdAt')
+    summaries.createIndex('keyThemes', 'keyThemes', { multiEntry: true })
+
+    db.createObjectStore(TOKENS_STORE, { keyPath: 'token' })
+  }
+  if (oldVersion < 2) {
+    const usage = db.createObjectStore(USAGE_STORE, { keyPath: 'id' })
+    usage.createIndex('createdAt', 'createdAt')
+  }
+  if (oldVersion < 3) {
+    // Look summaries up by canonical URL, filling it in for those already saved
+    const summaries = transaction.objectStore(SUMMARIES_STORE)
+    summaries.createIndex('canonicalUrl', 'canonicalUrl')
+    summaries.openCursor().onsuccess = (event) => {
+      const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>).result
+      if (!cursor) return
+      if (!cursor.value.canonicalUrl) {
+        cursor.update({ ...cursor.value, canonicalUrl: canonicalizeUrl(cursor.value.url) })
+      }
+      cursor.continue()
+    }
+  }
+  if (oldVersion < 4) {
+    db.createObjectStore(SNAPSHOTS_STORE, { keyPath: 'contentHash' })
+    transaction.objectStore(SUMMARIES_STORE).createIndex('contentHash', 'contentHash')
+  }
+}
+
+export function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = (event) => upgrade(request.result, event.oldVersion, request.transaction!)
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+    dbPromise.catch(() => {
+      dbPromise = null
+    })
+  }
+  return dbPromise
+}
+
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
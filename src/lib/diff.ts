@@ -0,0 +1,115 @@
+// Line diff between two extracted versions of a page, written out for the
+// model to summarize: "+ " lines were added, "- " lines removed, and "  "
+// lines are unchanged context around them
+
+export interface ContentDiff {
+  added: number
+  removed: number
+  text: string
+}
+
+type DiffLine = { type: 'added' | 'removed' | 'context'; text: string }
+
+// Unchanged lines kept either side of a change so it can be placed
+const CONTEXT_LINES = 1
+
+// Past this many cells the LCS table gets too large for the popup or worker;
+// such rewrites are compared as sets of lines instead
+const MAX_LCS_CELLS = 4_000_000
+
+// Blank lines and indentation changes aren't edits anyone cares about
+function toLines(content: string): string[] {
+  return content.split('\n').map(line => line.trim()).filter(Boolean)
+}
+
+function diffByLcs(before: string[], after: string[]): DiffLine[] {
+  const columns = after.length + 1
+  const lengths = new Uint32Array((before.length + 1) * columns)
+  for (let i = before.length - 1; i >= 0; i--) {
+    for (let j = after.length - 1; j >= 0; j--) {
+      lengths[i * columns + j] = before[i] === after[j]
+        ? lengths[(i + 1) * columns + j + 1] + 1
+        : Math.max(lengths[(i + 1) * columns + j], lengths[i * columns + j + 1])
+    }
+  }
+
+  const lines: DiffLine[] = []
+  let i = 0
+  let j = 0
+  while (i < before.length || j < after.length) {
+    if (i < before.length && j < after.length && before[i] === after[j]) {
+      lines.push({ type: 'context', text: before[i] })
+      i++
+      j++
+    } else if (i < before.length && (j === after.length || lengths[(i + 1) * columns + j] >= lengths[i * columns + j + 1])) {
+      lines.push({ type: 'removed', text: before[i++] })
+    } else {
+      lines.push({ type: 'added', text: after[j++] })
+    }
+  }
+  return lines
+}
+
+// Loses ordering, but keeps very large rewrites cheap to compare
+function diffBySet(before: string[], after: string[]): DiffLine[] {
+  const beforeSet = new Set(before)
+  const afterSet = new Set(after)
+  return [
+    ...before.filter(line => !afterSet.has(line)).map(text => ({ type: 'removed' as const, text })),
+    ...after.filter(line => !beforeSet.has(line)).map(text => ({ type: 'added' as const, text }))
+  ]
+}
+
+// Drop unchanged lines that aren't next to a change, marking gaps with "…"
+function formatDiff(lines: DiffLine[]): string {
+  const isNearChange = (index: number) =>
+    lines.slice(Math.max(0, index - CONTEXT_LINES), index + CONTEXT_LINES + 1).some(line => line.type !== 'context')
+
+  const output: string[] = []
+  lines.forEach((line, index) => {
+    if (line.type === 'context' && !isNearChange(index)) {
+      if (output.length > 0 && output[output.length - 1] !== '…') output.push('…')
+      return
+    }
+    output.push(`${line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '} ${line.text}`)
+  })
+  if (output[output.length - 1] === '…') output.pop()
+  return output.join('\n')
+}
+
+export function diffContent(before: string, after: string): ContentDiff {
+  const beforeLines = toLines(before)
+  const afterLines = toLines(after)
+
+  // Most edits touch the middle of a page; skip the shared start and end
+  let start = 0
+  while (start < beforeLines.length && start < afterLines.length && beforeLines[start] === afterLines[start]) {
+    start++
+  }
+  let end = 0
+  while (
+    end < beforeLines.length - start &&
+    end < afterLines.length - start &&
+    beforeLines[beforeLines.length - 1 - end] === afterLines[afterLines.length - 1 - end]
+  ) {
+    end++
+  }
+
+  const changedBefore = beforeLines.slice(start, beforeLines.length - end)
+  const changedAfter = afterLines.slice(start, afterLines.length - end)
+  const changes = (changedBefore.length + 1) * (changedAfter.length + 1) <= MAX_LCS_CELLS
+    ? diffByLcs(changedBefore, changedAfter)
+    : diffBySet(changedBefore, changedAfter)
+
+  const lines: DiffLine[] = [
+    ...beforeLines.slice(Math.max(0, start - CONTEXT_LINES), start).map(text => ({ type: 'context' as const, text })),
+    ...changes,
+    ...beforeLines.slice(beforeLines.length - end, beforeLines.length - end + CONTEXT_LINES).map(text => ({ type: 'context' as const, text }))
+  ]
+
+  return {
+    added: changes.filter(line => line.type === 'added').length,
+    removed: changes.filter(line => line.type === 'removed').length,
+    text: formatDiff(lines)
+  }
+}
@@ -0,0 +1,212 @@
+import type { DiscussionInsights, PageChanges, ResearchDigest, SummaryResult } from './types'
+
+export type ExportFormat = 'markdown' | 'obsidian' | 'jsonl' | 'csv'
+
+export interface ExportFormatOption {
+  id: ExportFormat
+  label: string
+  extension: string
+  mimeType: string
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { id: 'markdown', label: 'Markdown', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'obsidian', label: 'Obsidian / Logseq note', extension: 'md', mimeType: 'text/markdown' },
+  { id: 'jsonl', label: 'JSON lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  { id: 'csv', label: 'CSV', extension: 'csv', mimeType: 'text/csv' }
+]
+
+const DISCUSSION_SECTIONS: { key: keyof DiscussionInsights; label: string }[] = [
+  { key: 'consensus', label: 'Consensus' },
+  { key: 'disagreements', label: 'Disagreements' },
+  { key: 'topPoints', label: 'Top Points' }
+]
+
+const CHANGE_SECTIONS: { key: keyof PageChanges; label: string }[] = [
+  { key: 'added', label: 'Added' },
+  { key: 'removed', label: 'Removed' },
+  { key: 'changed', label: 'Changed' }
+]
+
+const CSV_COLUMNS: { header: string; value: (summary: SummaryResult) => string | number | undefined }[] = [
+  { header: 'id', value: summary => summary.id },
+  { header: 'url', value: summary => summary.url },
+  { header: 'title', value: summary => summary.title },
+  { header: 'createdAt', value: summary => summary.createdAt },
+  { header: 'mode', value: summary => summary.mode ?? 'page' },
+  { header: 'sentiment', value: summary => summary.sentiment },
+  { header: 'keyThemes', value: summary => summary.keyThemes.join('; ') },
+  { header: 'summary', value: summary => summary.summary },
+  { header: 'wordCount', value: summary => summary.wordCount },
+  { header: 'commentCount', value: summary => summary.commentCount },
+  { header: 'provider', value: summary => summary.provider },
+  { header: 'model', value: summary => summary.model },
+  { header: 'cost', value: summary => summary.usage?.cost ?? undefined }
+]
+
+export function getExportFormat(format: ExportFormat): ExportFormatOption {
+  return EXPORT_FORMATS.find(option => option.id === format)!
+}
+
+// Double-quoted so titles with colons or quotes stay valid YAML
+function yamlString(value: string): string {
+  return JSON.stringify(value)
+}
+
+function yamlList(values: string[]): string {
+  return values.length > 0 ? values.map(value => `\n  - ${yamlString(value)}`).join('') : ' []'
+}
+
+// Tags can't contain spaces or most punctuation in Obsidian or Logseq
+export function toTag(theme: string): string {
+  return theme
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}/_-]+/gu, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+function formatDiscussion(discussion: DiscussionInsights | undefined): string[] {
+  if (!discussion) return []
+  return DISCUSSION_SECTIONS
+    .filter(({ key }) => discussion[key].length > 0)
+    .flatMap(({ key, label }) => ['', `## ${label}`, ...discussion[key].map(point => `- ${point}`)])
+}
+
+function formatChanges(changes: PageChanges | undefined): string[] {
+  if (!changes) return []
+  return CHANGE_SECTIONS
+    .filter(({ key }) => changes[key].length > 0)
+    .flatMap(({ key, label }) => ['', `## ${label}`, ...changes[key].map(item => `- ${item}`)])
+}
+
+function toMarkdown(summary: SummaryResult): string {
+  return [
+    '---',
+    `url: ${yamlString(summary.url)}`,
+    `title: ${yamlString(summary.title)}`,
+    `createdAt: ${summary.createdAt}`,
+    `sentiment: ${summary.sentiment}`,
+    `keyThemes:${yamlList(summary.keyThemes)}`,
+    '---',
+    '',
+    `# ${summary.title}`,
+    '',
+    summary.summary,
+    ...formatChanges(summary.changes),
+    ...(summary.keyThemes.length > 0 ? ['', '## Key Themes', ...summary.keyThemes.map(theme => `- ${theme}`)] : []),
+    ...formatDiscussion(summary.discussion)
+  ].join('\n')
+}
+
+// Properties both apps read from front-matter, with themes as tags
+function toObsidianNote(summary: SummaryResult): string {
+  const tags = ['summary', ...summary.keyThemes.map(toTag).filter(Boolean)]
+  return [
+    '---',
+    `title: ${yamlString(summary.title)}`,
+    `source: ${yamlString(summary.url)}`,
+    `created: ${summary.createdAt.slice(0, 10)}`,
+    `sentiment: ${summary.sentiment}`,
+    `tags:${yamlList(tags)}`,
+    '---',
+    '',
+    `# ${summary.title}`,
+    '',
+    `Source: [${summary.title.replace(/[[\]]/g, '')}](${summary.url})`,
+    '',
+    summary.summary,
+    ...formatChanges(summary.changes),
+    ...formatDiscussion(summary.discussion),
+    '',
+    tags.map(tag => `#${tag}`).join(' ')
+  ].join('\n')
+}
+
+function csvCell(value: string | number | undefined): string {
+  if (value === undefined) return ''
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+function toCsv(summaries: SummaryResult[]): string {
+  const rows = [
+    CSV_COLUMNS.map(column => column.header),
+    ...summaries.map(summary => CSV_COLUMNS.map(column => csvCell(column.value(summary))))
+  ]
+  return rows.map(row => row.join(',')).join('\r\n')
+}
+
+export function formatSummaries(summaries: SummaryResult[], format: ExportFormat): string {
+  switch (format) {
+    case 'markdown':
+      return summaries.map(toMarkdown).join('\n\n')
+    case 'obsidian':
+      return summaries.map(toObsidianNote).join('\n\n')
+    case 'jsonl':
+      return summaries.map(summary => JSON.stringify(summary)).join('\n')
+    case 'csv':
+      return toCsv(summaries)
+  }
+}
+
+// Keep file names short and free of characters Windows or macOS reject
+function toFileName(title: string): string {
+  return title.replace(/[\\/:*?"<>|\x00-\x1f]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, 80) || 'summary'
+}
+
+async function downloadText(text: string, filename: string, mimeType: string): Promise<void> {
+  // Excel only reads UTF-8 CSV correctly with a byte order mark
+  const blob = new Blob([mimeType === 'text/csv' ? `\ufeff${text}` : text], { type: `${mimeType};charset=utf-8` })
+  const url = URL.createObjectURL(blob)
+  try {
+    await chrome.downloads.download({ url, filename, conflictAction: 'uniquify' })
+  } finally {
+    // The download has started by now, so the blob can go
+    setTimeout(() => URL.revokeObjectURL(url), 1000)
+  }
+}
+
+// Save summaries to the Downloads folder. Obsidian notes are written one per
+// file into a folder that can be moved into a vault; other formats go into
+// a single file.
+export async function downloadSummaries(summaries: SummaryResult[], format: ExportFormat): Promise<void> {
+  const { extension, mimeType } = getExportFormat(format)
+  const date = new Date().toISOString().slice(0, 10)
+
+  if (summaries.length === 1) {
+    await downloadText(formatSummaries(summaries, format), `${toFileName(summaries[0].title)}.${extension}`, mimeType)
+  } else if (format === 'obsidian') {
+    for (const summary of summaries) {
+      await downloadText(formatSummaries([summary], format), `summaries-${date}/${toFileName(summary.title)}.${extension}`, mimeType)
+    }
+  } else {
+    await downloadText(formatSummaries(summaries, format), `summaries-${date}.${extension}`, mimeType)
+  }
+  console.log(`📤 Exported ${summaries.length} summaries as ${format}`)
+}
+
+// Markdown with the digest's numbered citations listed as links at the end
+export function formatDigest(digest: ResearchDigest): string {
+  return [
+    '# Research Digest',
+    '',
+    digest.summary,
+    ...(digest.crossReferences.length > 0
+      ? ['', '## Cross-references', ...digest.crossReferences.map(({ theme, insight, sources }) =>
+          `- **${theme}**: ${insight} ${sources.map(source => `[${source}]`).join('')}`.trim())]
+      : []),
+    '',
+    '## Sources',
+    ...digest.sources.map((source, index) => `${index + 1}. [${source.title.replace(/[[\]]/g, '')}](${source.url})`)
+  ].join('\n')
+}
+
+export async function copyDigest(digest: ResearchDigest): Promise<void> {
+  await navigator.clipboard.writeText(formatDigest(digest))
+}
+
+export async function copySummary(summary: SummaryResult, format: ExportFormat): Promise<void> {
+  await navigator.clipboard.writeText(formatSummaries([summary], format))
+}
@@ -0,0 +1,40 @@
+import type { PageMetadata } from './types'
+
+export interface ExtractedPage {
+  content: string
+  format: 'markdown' | 'text'
+  metadata: PageMetadata
+}
+
+// Raw page captured in the tab, parsed later in the offscreen document
+export interface PageSnapshot {
+  html: string
+  url: string
+  language: string
+}
+
+export const OFFSCREEN_TARGET = 'offscreen'
+export const OFFSCREEN_DOCUMENT_PATH = 'tabs/offscreen.html'
+
+// Readability results shorter than this are treated as a failed parse
+export const MIN_ARTICLE_LENGTH = 200
+
+// Plain text as the model reads it: every run of whitespace, line breaks
+// included, becomes one space
+export function collapseWhitespace(content: string): string {
+  return content.replace(/\s+/g, ' ').trim()
+}
+
+// Metadata lines prepended to prompts so the model knows who wrote what, and when
+export function formatPageMetadata(metadata: PageMetadata | undefined): string {
+  if (!metadata) return ''
+
+  const lines = [
+    metadata.siteName && `Site: ${metadata.siteName}`,
+    metadata.byline && `Author: ${metadata.byline}`,
+    metadata.publishedTime && `Published: ${metadata.publishedTime}`,
+    metadata.language && `Language: ${metadata.language}`
+  ].filter(Boolean)
+
+  return lines.join('\n')
+}
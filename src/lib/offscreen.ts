@@ -0,0 +1,49 @@
+import { OFFSCREEN_DOCUMENT_PATH, OFFSCREEN_TARGET, type ExtractedPage, type PageSnapshot } from './extraction'
+
+let creating: Promise<void> | null = null
+
+// The service worker has no DOM, so Readability runs in a single offscreen document
+async function ensureOffscreenDocument(): Promise<void> {
+  const url = chrome.runtime.getURL(OFFSCREEN_DOCUMENT_PATH)
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT],
+    documentUrls: [url]
+  })
+  if (contexts.length > 0) return
+
+  if (!creating) {
+    creating = chrome.offscreen.createDocument({
+      url: OFFSCREEN_DOCUMENT_PATH,
+      reasons: [chrome.offscreen.Reason.DOM_PARSER],
+      justification: 'Parse page HTML with Readability and convert it to Markdown'
+    }).finally(() => {
+      creating = null
+    })
+  }
+  await creating
+}
+
+async function sendOffscreenMessage(action: string, payload: Record<string, unknown>) {
+  await ensureOffscreenDocument()
+
+  const response = await chrome.runtime.sendMessage({
+    target: OFFSCREEN_TARGET,
+    action,
+    ...payload
+  })
+
+  if (!response?.success) {
+    throw new Error(response?.error || 'Failed to parse page')
+  }
+  return response
+}
+
+export async function parseArticleOffscreen(snapshot: PageSnapshot): Promise<ExtractedPage | null> {
+  const response = await sendOffscreenMessage('parseArticle', { snapshot })
+  return response.page
+}
+
+export async function convertHtmlOffscreen(html: string): Promise<string> {
+  const response = await sendOffscreenMessage('convertHtml', { html })
+  return response.markdown
+}
@@ -0,0 +1,328 @@
+// Functions injected into pages with chrome.scripting.executeScript. They are
+// serialized on injection, so each must be self-contained: no imports and no
+// references to anything outside its own body.
+
+import type { PageSnapshot } from './extraction'
+import type { CommentData } from './types'
+
+export interface SelectorTestResult {
+  matches: number
+  preview: string
+}
+
+// HTML of every element matched by the site's selectors, in document order
+export function captureSelectorSnapshot(selectors: string[]): PageSnapshot | null {
+  const elements: Element[] = []
+  for (const selector of selectors) {
+    try {
+      document.querySelectorAll(selector).forEach(element => {
+        // Skip elements nested inside one we already have
+        if (!elements.some(existing => existing.contains(element))) {
+          elements.push(element)
+        }
+      })
+    } catch (e) {
+      console.warn(`Invalid site selector ${selector}:`, e)
+    }
+  }
+
+  if (elements.length === 0) return null
+
+  return {
+    html: elements.map(element => element.outerHTML).join('\n'),
+    url: location.href,
+    language: document.documentElement.lang || ''
+  }
+}
+
+export function testSelectors(selectors: string[]): SelectorTestResult {
+  let matches = 0
+  let text = ''
+  for (const selector of selectors) {
+    try {
+      const found = document.querySelectorAll(selector)
+      matches += found.length
+      found.forEach(element => {
+        text += ' ' + (element.textContent || '')
+      })
+    } catch {
+      // Invalid selectors simply match nothing
+    }
+  }
+
+  return {
+    matches,
+    preview: text.replace(/\s+/g, ' ').trim().slice(0, 300)
+  }
+}
+
+// Visible text of the page, used to preview prompt templates
+export function capturePageText(maxChars: number): string {
+  return (document.body?.innerText || '').replace(/\s+/g, ' ').trim().slice(0, maxChars)
+}
+
+// Let the user click an element; its CSS selector is sent to the background worker
+export function pickElement(): void {
+  const highlight = document.createElement('div')
+  highlight.style.cssText = 'position:fixed;pointer-events:none;z-index:2147483647;border:2px solid #2563eb;background:rgba(37,99,235,0.1);transition:all 50ms'
+  document.documentElement.appendChild(highlight)
+
+  const buildSelector = (element: Element): string => {
+    if (element.id) return `#${CSS.escape(element.id)}`
+
+    const parts: string[] = []
+    let current: Element | null = element
+    while (current && current !== document.documentElement && parts.length < 5) {
+      let part = current.tagName.toLowerCase()
+      const stableClasses = Array.from(current.classList).filter(name => !/\d/.test(name)).slice(0, 2)
+      if (stableClasses.length > 0) {
+        part += stableClasses.map(name => `.${CSS.escape(name)}`).join('')
+      }
+
+      const parent: Element | null = current.parentElement
+      if (parent) {
+        const siblings = Array.from(parent.children).filter(child => child.tagName === current!.tagName)
+        if (siblings.length > 1 && stableClasses.length === 0) {
+          part += `:nth-of-type(${siblings.indexOf(current) + 1})`
+        }
+      }
+
+      parts.unshift(part)
+      const selector = parts.join(' > ')
+      if (document.querySelectorAll(selector).length === 1) return selector
+
+      if (current.id) {
+        parts[0] = `#${CSS.escape(current.id)}`
+        return parts.join(' > ')
+      }
+      current = parent
+    }
+    return parts.join(' > ')
+  }
+
+  const onMove = (event: MouseEvent) => {
+    const target = event.target as Element
+    if (!target || target === highlight) return
+    const rect = target.getBoundingClientRect()
+    highlight.style.top = `${rect.top}px`
+    highlight.style.left = `${rect.left}px`
+    highlight.style.width = `${rect.width}px`
+    highlight.style.height = `${rect.height}px`
+  }
+
+  const cleanup = () => {
+    document.removeEventListener('mousemove', onMove, true)
+    document.removeEventListener('click', onClick, true)
+    document.removeEventListener('keydown', onKey, true)
+    highlight.remove()
+  }
+
+  const showToast = (message: string) => {
+    const toast = document.createElement('div')
+    toast.textContent = message
+    toast.style.cssText = 'position:fixed;bottom:16px;right:16px;z-index:2147483647;padding:8px 12px;border-radius:6px;background:#111827;color:#fff;font:13px system-ui,sans-serif;max-width:360px'
+    document.documentElement.appendChild(toast)
+    setTimeout(() => toast.remove(), 3000)
+  }
+
+  const onClick = (event: MouseEvent) => {
+    event.preventDefault()
+    event.stopPropagation()
+    cleanup()
+
+    const selector = buildSelector(event.target as Element)
+    chrome.runtime.sendMessage({ action: 'elementPicked', selector, hostname: location.hostname })
+    showToast(`Selector saved: ${selector}`)
+  }
+
+  const onKey = (event: KeyboardEvent) => {
+    if (event.key === 'Escape') {
+      cleanup()
+      showToast('Element picking cancelled')
+    }
+  }
+
+  document.addEventListener('mousemove', onMove, true)
+  document.addEventListener('click', onClick, true)
+  document.addEventListener('keydown', onKey, true)
+  showToast('Click the main content of the page (Esc to cancel)')
+}
+
+// Comment trees from Hacker News, Reddit, GitHub issues or generic threaded markup
+export function extractComments(): CommentData[] {
+  const clean = (text: string | null | undefined) => (text || '').replace(/\s+/g, ' ').trim()
+  const parseScore = (text: string | null | undefined) => {
+    const match = (text || '').replace(/,/g, '').match(/-?\d+(\.\d+)?k?/i)
+    if (!match) return undefined
+    const value = parseFloat(match[0])
+    return /k$/i.test(match[0]) ? Math.round(value * 1000) : value
+  }
+
+  // Turn a flat, ordered list with depths into a tree
+  const buildTree = (items: { depth: number; comment: CommentData }[]) => {
+    const roots: CommentData[] = []
+    const stack: { depth: number; comment: CommentData }[] = []
+    for (const item of items) {
+      while (stack.length > 0 && stack[stack.length - 1].depth >= item.depth) stack.pop()
+      const parent = stack[stack.length - 1]
+      if (parent) {
+        parent.comment.replies = [...(parent.comment.replies || []), item.comment]
+      } else {
+        roots.push(item.comment)
+      }
+      stack.push(item)
+    }
+    return roots
+  }
+
+  const host = location.hostname
+
+  // Hacker News: flat table rows with an indent column
+  if (host === 'news.ycombinator.com') {
+    const rows = Array.from(document.querySelectorAll('tr.athing.comtr'))
+    return buildTree(rows.map(row => ({
+      depth: Number(row.querySelector('td.ind')?.getAttribute('indent') || 0),
+      comment: {
+        text: clean(row.querySelector('.commtext')?.textContent),
+        author: clean(row.querySelector('.hnuser')?.textContent) || undefined,
+        timestamp: row.querySelector('.age')?.getAttribute('title') || undefined
+      }
+    })).filter(item => item.comment.text))
+  }
+
+  if (host.endsWith('reddit.com')) {
+    // New Reddit: <shreddit-comment> elements carry their metadata as attributes
+    const shreddit = Array.from(document.querySelectorAll('shreddit-comment'))
+    if (shreddit.length > 0) {
+      return buildTree(shreddit.map(element => ({
+        depth: Number(element.getAttribute('depth') || 0),
+        comment: {
+          text: clean(element.querySelector('[slot="comment"]')?.textContent),
+          author: element.getAttribute('author') || undefined,
+          score: parseScore(element.getAttribute('score')),
+          timestamp: element.querySelector('time')?.getAttribute('datetime') || undefined
+        }
+      })).filter(item => item.comment.text))
+    }
+
+    // Old Reddit: nested .thing.comment blocks
+    const readOldReddit = (container: Element | null): CommentData[] =>
+      Array.from(container?.querySelectorAll(':scope > .thing.comment') || []).map(thing => ({
+        text: clean(thing.querySelector(':scope > .entry .usertext-body')?.textContent),
+        author: clean(thing.querySelector(':scope > .entry .author')?.textContent) || undefined,
+        score: parseScore(thing.querySelector(':scope > .entry .score.unvoted')?.getAttribute('title')),
+        timestamp: thing.querySelector(':scope > .entry time')?.getAttribute('datetime') || undefined,
+        replies: readOldReddit(thing.querySelector(':scope > .child > .sitetable'))
+      })).filter(comment => comment.text)
+    const oldReddit = readOldReddit(document.querySelector('.commentarea > .sitetable'))
+    if (oldReddit.length > 0) return oldReddit
+  }
+
+  // GitHub issues and pull requests: a flat timeline of comments
+  if (host === 'github.com') {
+    const bodies = Array.from(document.querySelectorAll('.timeline-comment .comment-body, [data-testid="markdown-body"]'))
+    const comments = bodies.map(body => {
+      const container = body.closest('.timeline-comment, [data-testid="comment-viewer-outer-box"]') || body.parentElement
+      const thumbsUp = container?.querySelector('[aria-label*="thumbs up" i], g-emoji[alias="+1"]')
+      return {
+        text: clean(body.textContent),
+        author: clean(container?.querySelector('.author, [data-testid="avatar-link"]')?.textContent) || undefined,
+        timestamp: container?.querySelector('relative-time')?.getAttribute('datetime') || undefined,
+        score: parseScore(thumbsUp?.closest('button')?.textContent)
+      }
+    }).filter(comment => comment.text)
+    if (comments.length > 0) return comments
+  }
+
+  // Generic: elements named like comments, nested by DOM containment
+  const bodySelector = '[class*="body" i], [class*="content" i], [class*="text" i], p'
+  const candidates = new Set(Array.from(document.querySelectorAll('[class*="comment" i], [id^="comment" i]')).filter(element =>
+    !/(body|content|text|form|reply|count|button|link|meta|header|footer|author|avatar)/i.test(element.className.toString())
+  ))
+  const nearestCandidate = (element: Element) => {
+    let current = element.parentElement
+    while (current && !candidates.has(current)) current = current.parentElement
+    return current
+  }
+
+  const nested = new Map<Element, CommentData>()
+  const roots: CommentData[] = []
+  for (const element of candidates) {
+    // A comment's own body, not one belonging to a reply nested inside it
+    const body = Array.from(element.querySelectorAll(bodySelector)).find(found => nearestCandidate(found) === element)
+    const text = clean(body?.textContent)
+    if (!text) continue
+
+    const comment: CommentData = {
+      text,
+      author: clean(element.querySelector('[class*="author" i], [class*="user" i]')?.textContent) || undefined,
+      timestamp: element.querySelector('time')?.getAttribute('datetime') || undefined,
+      score: parseScore(element.querySelector('[class*="score" i], [class*="vote" i], [class*="points" i]')?.textContent)
+    }
+
+    let ancestor = nearestCandidate(element)
+    while (ancestor && !nested.has(ancestor)) ancestor = nearestCandidate(ancestor)
+    const parent = ancestor ? nested.get(ancestor) : undefined
+
+    nested.set(element, comment)
+    if (parent) {
+      parent.replies = [...(parent.replies || []), comment]
+    } else {
+      roots.push(comment)
+    }
+  }
+  return roots
+}
+
+// Where the page says its content permanently lives, if it declares it
+export function getCanonicalLink(): string | null {
+  return document.querySelector<HTMLLinkElement>('link[rel~="canonical"]')?.href ?? null
+}
+
+export function getSelectedText(): string {
+  return window.getSelection()?.toString() ?? ''
+}
+
+// Show a floating card for a selection action. The background worker fills it
+// in with 'selectionOverlay' messages as the answer streams.
+export function showSelectionOverlay(heading: string): void {
+  const OVERLAY_ID = 'chrome-llm-starter-overlay'
+  document.getElementById(OVERLAY_ID)?.remove()
+
+  const host = document.createElement('div')
+  host.id = OVERLAY_ID
+  host.style.cssText = 'position:fixed;bottom:16px;right:16px;z-index:2147483647'
+  // A shadow root keeps the page's styles off the card
+  const root = host.attachShadow({ mode: 'open' })
+  root.innerHTML = `
+    <style>
+      .card { width: 360px; max-height: 50vh; overflow: auto; padding: 12px 14px; border-radius: 8px;
+        background: #fff; color: #111827; box-shadow: 0 10px 30px rgba(0,0,0,0.2); font: 13px/1.5 system-ui, sans-serif; }
+      .header { display: flex; justify-content: space-between; align-items: center; margin-bottom: 6px; }
+      .heading { font-weight: 600; }
+      .close { border: none; background: none; cursor: pointer; font-size: 16px; color: #6b7280; }
+      .body { white-space: pre-wrap; }
+      .error { color: #dc2626; }
+    </style>
+    <div class="card">
+      <div class="header"><span class="heading"></span><button class="close" title="Close">×</button></div>
+      <div class="body">…</div>
+    </div>`
+  root.querySelector('.heading')!.textContent = heading
+  root.querySelector('.close')!.addEventListener('click', () => host.remove())
+  document.documentElement.appendChild(host)
+
+  // Injected scripts share one isolated world per page, so register the listener once
+  const state = window as unknown as { __llmOverlayListening?: boolean }
+  if (state.__llmOverlayListening) return
+  state.__llmOverlayListening = true
+
+  chrome.runtime.onMessage.addListener((message) => {
+    if (message?.action !== 'selectionOverlay') return
+    const body = document.getElementById(OVERLAY_ID)?.shadowRoot?.querySelector('.body')
+    if (!body) return
+
+    body.classList.toggle('error', message.status === 'error')
+    body.textContent = message.status === 'error' ? message.error : message.text || '…'
+  })
+}
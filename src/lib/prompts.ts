@@ -0,0 +1,296 @@
+import { formatPageMetadata } from './extraction'
+import type { ResponseSchema } from './providers'
+import {
+  CHANGES_RESPONSE_SCHEMA,
+  DIGEST_RESPONSE_SCHEMA,
+  DISCUSSION_RESPONSE_SCHEMA,
+  SUMMARY_METADATA_MARKER,
+  SUMMARY_RESPONSE_SCHEMA
+} from './summary'
+import { renderTemplate, type TemplateVariables } from './templates'
+import type { PageMetadata, PromptTemplate, SelectionAction } from './types'
+
+// 'text' replies stream as prose, marker and JSON tail; 'json' replies are a
+// single document for providers' native structured output
+export type ResponseFormat = 'text' | 'json'
+
+// The prompts for one summary mode: a single-shot prompt for content that
+// fits in one call, and the chunk/reduce pair for content that doesn't
+export interface PromptSet {
+  summary: (title: string, metadata: PageMetadata, content: string, format?: ResponseFormat) => string
+  chunk: (title: string, chunk: string, index: number, total: number) => string
+  reduce: (title: string, metadata: PageMetadata, partials: string[], format?: ResponseFormat) => string
+  responseSchema: ResponseSchema
+  maxTokens?: number
+}
+
+const JSON_FORMAT_INSTRUCTIONS = 'Respond with a single JSON object that matches the provided schema.'
+
+const SUMMARY_FORMAT_INSTRUCTIONS = `Please write your response in this exact format:
+
+The summary as described above, as plain text.
+${SUMMARY_METADATA_MARKER}
+{
+  "sentiment": "overall sentiment of the content (positive, negative, neutral, or mixed)",
+  "keyThemes": ["array", "of", "key", "themes", "or", "topics"]
+}`
+
+const DISCUSSION_FORMAT_INSTRUCTIONS = `Please write your response in this exact format:
+
+A clear, concise summary of what the discussion is about and where it landed (2-3 sentences), as plain text.
+${SUMMARY_METADATA_MARKER}
+{
+  "sentiment": "overall sentiment of the commenters (positive, negative, neutral, or mixed)",
+  "keyThemes": ["array", "of", "key", "themes", "or", "topics"],
+  "consensus": ["points most commenters agree on"],
+  "disagreements": ["points commenters argue about, naming both sides"],
+  "topPoints": ["the most upvoted or most replied-to arguments, one sentence each"]
+}`
+
+const CHANGES_FORMAT_INSTRUCTIONS = `Please write your response in this exact format:
+
+A short overview of what changed and why it matters (1-3 sentences), as plain text.
+${SUMMARY_METADATA_MARKER}
+{
+  "sentiment": "overall sentiment of the changes (positive, negative, neutral, or mixed)",
+  "keyThemes": ["array", "of", "topics", "the", "changes", "touch"],
+  "added": ["new content, one sentence each"],
+  "removed": ["content that was taken out, one sentence each"],
+  "changed": ["content that was reworded or updated, saying what it was and what it is now"]
+}`
+
+const DIGEST_FORMAT_INSTRUCTIONS = `Please write your response in this exact format:
+
+An overview of what the sources say together (one or two short paragraphs), citing sources by number like [1] or [2][3], as plain text.
+${SUMMARY_METADATA_MARKER}
+{
+  "sentiment": "overall sentiment across the sources (positive, negative, neutral, or mixed)",
+  "keyThemes": ["array", "of", "key", "themes", "or", "topics"],
+  "crossReferences": [
+    { "theme": "a theme that comes up in more than one source", "insight": "where the sources agree, differ or add to each other", "sources": [1, 2] }
+  ]
+}`
+
+const DIFF_LEGEND = 'Lines starting with "+" were added, lines starting with "-" were removed, other lines are unchanged context, and "…" marks unchanged content left out.'
+
+function buildPageHeader(title: string, metadata: PageMetadata) {
+  return [`Title: ${title}`, formatPageMetadata(metadata)].filter(Boolean).join('\n')
+}
+
+function formatInstructions(format: ResponseFormat, textInstructions: string) {
+  return format === 'json' ? JSON_FORMAT_INSTRUCTIONS : textInstructions
+}
+
+// Page summaries run the user's chosen template. Long pages hand the template
+// the combined chunk notes in place of the content.
+export function createPagePrompts(
+  template: PromptTemplate,
+  variables: Omit<TemplateVariables, 'title' | 'content'>
+): PromptSet {
+  const render = (title: string, metadata: PageMetadata, content: string, format: ResponseFormat) => {
+    const details = formatPageMetadata(metadata)
+    return [
+      renderTemplate(template.template, { ...variables, title, content }),
+      details && `Page details:\n${details}`,
+      formatInstructions(format, SUMMARY_FORMAT_INSTRUCTIONS)
+    ].filter(Boolean).join('\n\n')
+  }
+
+  return {
+    summary: (title, metadata, content, format = 'text') => render(title, metadata, content, format),
+
+    chunk: (title, chunk, index, total) => `You are reading part ${index + 1} of ${total} of a long web page titled "${title}".
+
+Content:
+${chunk}
+
+Write concise notes (at most 5 bullet points) covering the key facts, claims and conclusions in this part only. Do not add an introduction.`,
+
+    reduce: (title, metadata, partials, format = 'text') => {
+      const notes = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n')
+      return render(title, metadata, `Notes taken from consecutive parts of this long page:\n\n${notes}`, format)
+    },
+
+    responseSchema: SUMMARY_RESPONSE_SCHEMA
+  }
+}
+
+// Comments arrive as an indented outline: "- [author, N points] text", with
+// replies nested two spaces under their parent
+export const discussionPrompts: PromptSet = {
+  summary: (title, metadata, content, format = 'text') => `Please analyze the following comment thread and summarize the discussion.
+
+${buildPageHeader(title, metadata)}
+
+Comments (replies are indented under their parent):
+${content}
+
+${formatInstructions(format, DISCUSSION_FORMAT_INSTRUCTIONS)}
+
+Weight comments by their points and by how many replies they drew. Summarize what commenters think, not what the original post says, and leave a list empty rather than inventing entries.`,
+
+  chunk: (title, chunk, index, total) => `You are reading part ${index + 1} of ${total} of a long comment thread on "${title}".
+
+Comments (replies are indented under their parent):
+${chunk}
+
+Write concise notes (at most 6 bullet points) on the opinions in this part: what commenters agree on, what they argue about, and the highest-scoring arguments with their points. Do not add an introduction.`,
+
+  reduce: (title, metadata, partials, format = 'text') => {
+    const notes = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n')
+
+    return `The following are notes taken from consecutive parts of a long comment thread.
+
+${buildPageHeader(title, metadata)}
+
+${notes}
+
+Combine them into a single summary of the whole discussion.
+
+${formatInstructions(format, DISCUSSION_FORMAT_INSTRUCTIONS)}
+
+Weight arguments by their points. Leave a list empty rather than inventing entries.`
+  },
+
+  responseSchema: DISCUSSION_RESPONSE_SCHEMA,
+  // The tail carries three extra lists
+  maxTokens: 1000
+}
+
+// Change summaries read a line diff between the version of the page an
+// earlier summary was written from and the page as it is now
+export function createChangesPrompts(previousSummary: string, previousDate: string): PromptSet {
+  const earlier = `Summary of the earlier version (${previousDate}):
+${previousSummary}`
+
+  return {
+    summary: (title, metadata, content, format = 'text') => `This page has been edited since it was last summarized. Summarize only what changed.
+
+${buildPageHeader(title, metadata)}
+
+${earlier}
+
+Changes (${DIFF_LEGEND}):
+${content}
+
+${formatInstructions(format, CHANGES_FORMAT_INSTRUCTIONS)}
+
+A line that was removed and added back reworded is a change, not an addition and a removal. Ignore changes to formatting, dates of the page itself and navigation. Leave a list empty rather than inventing entries.`,
+
+    chunk: (title, chunk, index, total) => `You are reading part ${index + 1} of ${total} of the changes made to a web page titled "${title}".
+
+Changes (${DIFF_LEGEND}):
+${chunk}
+
+Write concise notes (at most 6 bullet points) on what was added, removed or reworded in this part. Do not add an introduction.`,
+
+    reduce: (title, metadata, partials, format = 'text') => {
+      const notes = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n')
+
+      return `The following are notes on consecutive parts of the changes made to a web page.
+
+${buildPageHeader(title, metadata)}
+
+${earlier}
+
+${notes}
+
+Combine them into a single summary of what changed.
+
+${formatInstructions(format, CHANGES_FORMAT_INSTRUCTIONS)}
+
+Leave a list empty rather than inventing entries.`
+    },
+
+    responseSchema: CHANGES_RESPONSE_SCHEMA,
+    maxTokens: 1000
+  }
+}
+
+// Research digests read the summaries of several tabs, numbered so the
+// digest can cite them
+export const digestPrompts: PromptSet = {
+  summary: (title, metadata, content, format = 'text') => `Please write a research digest of the following sources, which the user has open together.
+
+Title: ${title}
+
+Sources:
+${content}
+
+${formatInstructions(format, DIGEST_FORMAT_INSTRUCTIONS)}
+
+Cite every claim with the numbers of the sources it comes from, and cite each source at least once. Prefer themes that connect sources over restating each one. Only cite numbers from the list above.`,
+
+  chunk: (title, chunk, index, total) => `You are reading part ${index + 1} of ${total} of a list of numbered sources for "${title}".
+
+Sources:
+${chunk}
+
+Write concise notes (at most 6 bullet points) on the main claims and themes, citing the source numbers for each. Do not add an introduction.`,
+
+  reduce: (title, metadata, partials, format = 'text') => {
+    const notes = partials.map((partial, index) => `Part ${index + 1}:\n${partial}`).join('\n\n')
+
+    return `The following are notes on consecutive parts of a list of numbered sources.
+
+Title: ${title}
+
+${notes}
+
+Combine them into a single research digest.
+
+${formatInstructions(format, DIGEST_FORMAT_INSTRUCTIONS)}
+
+Keep the source numbers from the notes. Cite every claim and cite each source at least once.`
+  },
+
+  responseSchema: DIGEST_RESPONSE_SCHEMA,
+  // The tail carries a list of cross-references
+  maxTokens: 1500
+}
+
+// Ask the model to turn a reply that failed validation into a valid document
+export function buildRepairPrompt(response: string, errors: string[], responseSchema: ResponseSchema) {
+  return `Your previous reply could not be read. It had these problems:
+${errors.map(error => `- ${error}`).join('\n')}
+
+Previous reply:
+${response}
+
+Rewrite it as a single JSON object matching this JSON Schema, keeping the summary wording where possible:
+${JSON.stringify(responseSchema.schema, null, 2)}
+
+Respond with the JSON object only, without code fences or commentary.`
+}
+
+// System prompt for follow-up questions about the page the user is reading
+export function buildChatSystemPrompt(title: string, url: string, summary: string, content: string, truncated: boolean) {
+  return `You are answering questions about the web page the user is reading.
+
+Title: ${title}
+URL: ${url}
+
+Summary:
+${summary}
+
+Page content${truncated ? ' (cut short to fit; the rest of the page is not available)' : ''}:
+${content}
+
+Answer from the page content. If the page doesn't cover the question, say so before adding anything from general knowledge. Keep answers short and in plain text unless the user asks for more.`
+}
+
+const SELECTION_INSTRUCTIONS: Record<SelectionAction, (language: string) => string> = {
+  summarize: (language) => `Summarize the selected text in 2-3 sentences, in ${language}.`,
+  explain: (language) => `Explain the selected text in plain ${language} for someone new to the topic. Define any jargon and keep it under 150 words.`,
+  translate: (language) => `Translate the selected text into ${language}. Keep the meaning and tone, and reply with the translation only.`
+}
+
+// Prompt for a context-menu or keyboard-shortcut action on selected text
+export function buildSelectionPrompt(action: SelectionAction, selection: string, title: string, language: string) {
+  return `The user selected the following text on a web page titled "${title}".
+
+Selected text:
+${selection}
+
+${SELECTION_INSTRUCTIONS[action](language)} Reply in plain text.`
+}
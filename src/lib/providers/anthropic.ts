@@ -0,0 +1,116 @@
+import { createErrorMapper, hasApiKeyAndModel, toTokenUsage, validateByCompletion } from './base'
+import type { ProviderSettings } from '../types'
+import { ProviderError, type CompletionRequest, type ProviderAdapter, type ProviderRequest } from './types'
+
+const ANTHROPIC_BASE_URL = 'https://api.anthropic.com/v1'
+
+function buildHeaders(settings: ProviderSettings): Record<string, string> {
+  return {
+    'Content-Type': 'application/json',
+    'X-API-Key': settings.apiKey,
+    'anthropic-version': '2023-06-01',
+    'anthropic-dangerous-direct-browser-access': 'true'
+  }
+}
+
+function buildMessagesRequest(settings: ProviderSettings, request: CompletionRequest, stream: boolean): ProviderRequest {
+  const { prompt, system, history = [], maxTokens = 500, temperature = 0.7, schema } = request
+  const body: Record<string, unknown> = {
+    model: settings.model,
+    max_tokens: maxTokens,
+    temperature,
+    stream,
+    messages: [
+      ...history.map(({ role, content }) => ({ role, content })),
+      {
+        role: 'user',
+        content: prompt
+      }
+    ]
+  }
+
+  if (system) {
+    body.system = system
+  }
+
+  // Anthropic has no JSON mode; forcing a single tool call gets the same result
+  if (schema && !stream) {
+    body.tools = [{ name: schema.name, description: schema.description, input_schema: schema.schema }]
+    body.tool_choice = { type: 'tool', name: schema.name }
+  }
+
+  return {
+    url: `${ANTHROPIC_BASE_URL}/messages`,
+    init: {
+      method: 'POST',
+      headers: buildHeaders(settings),
+      body: JSON.stringify(body)
+    }
+  }
+}
+
+export const anthropicAdapter: ProviderAdapter = {
+  id: 'anthropic',
+  label: 'Anthropic',
+  defaultModel: 'claude-3-5-sonnet-20241022',
+  defaultContextWindow: 200000,
+  supportsStructuredOutput: true,
+  models: [
+    { id: 'claude-3-5-sonnet-20241022', label: 'Claude 3.5 Sonnet', contextWindow: 200000, pricing: { input: 3, output: 15 } },
+    { id: 'claude-3-5-haiku-20241022', label: 'Claude 3.5 Haiku', contextWindow: 200000, pricing: { input: 0.8, output: 4 } },
+    { id: 'claude-3-opus-20240229', label: 'Claude 3 Opus', contextWindow: 200000, pricing: { input: 15, output: 75 } }
+  ],
+
+  buildRequest(settings, request) {
+    return buildMessagesRequest(settings, request, false)
+  },
+
+  buildStreamRequest(settings, request) {
+    return buildMessagesRequest(settings, request, true)
+  },
+
+  parseResponse(data) {
+    const toolUse = data.content.find((block: { type: string }) => block.type === 'tool_use')
+    if (toolUse) return JSON.stringify(toolUse.input)
+    return data.content[0].text
+  },
+
+  parseStreamEvent(data) {
+    if (data.type === 'error') {
+      throw new ProviderError('anthropic', `Anthropic API error: ${data.error?.message ?? 'stream failed'}`)
+    }
+    if (data.type === 'content_block_delta' && data.delta?.type === 'text_delta') {
+      return data.delta.text
+    }
+    return null
+  },
+
+  // Streams report input tokens in message_start and the running output count in message_delta
+  parseUsage(data) {
+    const usage = data.usage ?? data.message?.usage
+    return usage ? toTokenUsage(usage.input_tokens, usage.output_tokens) : null
+  },
+
+  mapError: createErrorMapper('anthropic', 'Anthropic'),
+
+  isConfigured: hasApiKeyAndModel,
+
+  validate(settings, signal) {
+    return validateByCompletion(anthropicAdapter, settings, signal)
+  },
+
+  async listModels(settings, signal) {
+    const response = await fetch(`${ANTHROPIC_BASE_URL}/models?limit=1000`, { headers: buildHeaders(settings), signal })
+    if (!response.ok) {
+      throw anthropicAdapter.mapError(response)
+    }
+
+    const data = await response.json()
+    // Every model the API lists supports tool use
+    return data.data.map((model: { id: string; display_name?: string }) => ({
+      id: model.id,
+      label: model.display_name ?? model.id,
+      structuredOutput: true
+    }))
+  }
+}
@@ -0,0 +1,215 @@
+import { estimateTokens } from '../chunking'
+import type { LLMProvider, ProviderSettings, TokenUsage } from '../types'
+import { ProviderError, ProviderNetworkError, type CompletionRequest, type ProviderAdapter, type ProviderRequest } from './types'
+
+// How long a provider gets to start responding before the request is treated as timed out
+const REQUEST_TIMEOUT_MS = 60000
+
+export function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('retry-after')
+  if (!header) return null
+
+  const seconds = Number(header)
+  if (!Number.isNaN(seconds)) return seconds * 1000
+
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+export function createErrorMapper(provider: LLMProvider, label: string) {
+  return (response: Response) =>
+    new ProviderError(
+      provider,
+      `${label} API error: ${response.status} ${response.statusText}`,
+      response.status,
+      parseRetryAfter(response)
+    )
+}
+
+// Build a usage update from whichever counts a response carried
+export function toTokenUsage(inputTokens?: number, outputTokens?: number): Partial<TokenUsage> | null {
+  if (inputTokens === undefined && outputTokens === undefined) return null
+  return {
+    ...(inputTokens !== undefined && { inputTokens }),
+    ...(outputTokens !== undefined && { outputTokens })
+  }
+}
+
+// Fill in counts the provider didn't report from the length of the text
+function completeUsage(reported: Partial<TokenUsage>, request: CompletionRequest, text: string): TokenUsage {
+  if (reported.inputTokens !== undefined && reported.outputTokens !== undefined) {
+    return { inputTokens: reported.inputTokens, outputTokens: reported.outputTokens }
+  }
+
+  const input = [request.system ?? '', ...(request.history ?? []).map(turn => turn.content), request.prompt].join('\n')
+  return {
+    inputTokens: reported.inputTokens ?? estimateTokens(input),
+    outputTokens: reported.outputTokens ?? estimateTokens(text),
+    estimated: true
+  }
+}
+
+// Start a provider request that fails with a 408 ProviderError if it hasn't
+// started() in time. The caller's signal still cancels it until it is done().
+function startRequest(adapter: ProviderAdapter, { url, init }: ProviderRequest, signal?: AbortSignal) {
+  const controller = new AbortController()
+  let timedOut = false
+  const timeoutId = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, REQUEST_TIMEOUT_MS)
+
+  // Long-lived signals outlast many requests, so the listener is removed again
+  const abort = () => controller.abort()
+  if (signal?.aborted) controller.abort()
+  signal?.addEventListener('abort', abort, { once: true })
+
+  const guard = async <T>(work: Promise<T>): Promise<T> => {
+    try {
+      return await work
+    } catch (error) {
+      if (timedOut) {
+        throw new ProviderError(adapter.id, `${adapter.label} did not respond in time`, 408)
+      }
+      throw error
+    }
+  }
+
+  return {
+    // Only fetch's own TypeError means the network failed; one thrown while
+    // parsing a response is a bug and must not be retried
+    response: guard(fetch(url, { ...init, signal: controller.signal }).catch((error) => {
+      throw error instanceof TypeError
+        ? new ProviderNetworkError(adapter.id, `Could not reach ${adapter.label}: ${error.message}`)
+        : error
+    })),
+    guard,
+    started: () => clearTimeout(timeoutId),
+    done: () => {
+      clearTimeout(timeoutId)
+      signal?.removeEventListener('abort', abort)
+    }
+  }
+}
+
+// Run a single non-streaming completion through an adapter
+export async function complete(
+  adapter: ProviderAdapter,
+  settings: ProviderSettings,
+  request: CompletionRequest,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  const { response: pending, guard, done } = startRequest(adapter, adapter.buildRequest(settings, request), signal)
+
+  try {
+    const response = await pending
+    if (!response.ok) {
+      throw adapter.mapError(response)
+    }
+
+    const data = await guard(response.json())
+    const text = adapter.parseResponse(data)
+    onUsage?.(completeUsage(adapter.parseUsage(data) ?? {}, request, text))
+    return text
+  } finally {
+    done()
+  }
+}
+
+// Yield the data payload of each server-sent event in a streaming response
+export async function* readServerSentEvents(response: Response): AsyncGenerator<string> {
+  if (!response.body) return
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let dataLines: string[] = []
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    buffer += decoder.decode(value, { stream: true })
+    const lines = buffer.split(/\r?\n/)
+    buffer = lines.pop() ?? ''
+
+    for (const line of lines) {
+      if (line === '') {
+        if (dataLines.length > 0) {
+          yield dataLines.join('\n')
+          dataLines = []
+        }
+      } else if (line.startsWith('data:')) {
+        dataLines.push(line.slice(5).trimStart())
+      }
+    }
+  }
+
+  if (buffer.startsWith('data:')) {
+    dataLines.push(buffer.slice(5).trimStart())
+  }
+  if (dataLines.length > 0) {
+    yield dataLines.join('\n')
+  }
+}
+
+// Run a streaming completion, reporting each text delta and resolving with the full text
+export async function streamCompletion(
+  adapter: ProviderAdapter,
+  settings: ProviderSettings,
+  request: CompletionRequest,
+  onToken: (token: string) => void,
+  signal?: AbortSignal,
+  onUsage?: (usage: TokenUsage) => void
+): Promise<string> {
+  // Only the wait for the stream to start is timed; long replies can take a while
+  const { response: pending, started, done } = startRequest(adapter, adapter.buildStreamRequest(settings, request), signal)
+
+  try {
+    const response = await pending.finally(started)
+    if (!response.ok) {
+      throw adapter.mapError(response)
+    }
+
+    let text = ''
+    let usage: Partial<TokenUsage> = {}
+    for await (const payload of readServerSentEvents(response)) {
+      if (payload === '[DONE]') break
+
+      let event: any
+      try {
+        event = JSON.parse(payload)
+      } catch {
+        continue
+      }
+
+      usage = { ...usage, ...adapter.parseUsage(event) }
+      const token = adapter.parseStreamEvent(event)
+      if (token) {
+        text += token
+        onToken(token)
+      }
+    }
+
+    onUsage?.(completeUsage(usage, request, text))
+    return text
+  } finally {
+    done()
+  }
+}
+
+// Default configuration check for hosted providers
+export function hasApiKeyAndModel(settings: ProviderSettings): boolean {
+  return !!settings.apiKey && !!settings.model
+}
+
+// Default validation: a tiny completion against the configured model
+export async function validateByCompletion(
+  adapter: ProviderAdapter,
+  settings: ProviderSettings,
+  signal?: AbortSignal
+): Promise<boolean> {
+  await complete(adapter, settings, { prompt: 'Hello', maxTokens: 5 }, signal)
+  return true
+}
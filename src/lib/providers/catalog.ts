@@ -0,0 +1,93 @@
+import type { LLMProvider, ProviderSettings } from '../types'
+import type { ModelOption } from './types'
+import { getProviderAdapter } from './index'
+
+// Model lists discovered from each provider, cached in chrome.storage.local
+const MODEL_CATALOG_KEY = 'modelCatalog'
+export const MODEL_CATALOG_TTL_MS = 24 * 60 * 60 * 1000
+
+interface CachedModels {
+  models: ModelOption[]
+  fetchedAt: number
+  // The server the list came from; only self-hosted providers have one
+  source: string
+}
+
+type ModelCatalogCache = Partial<Record<LLMProvider, CachedModels>>
+
+function getCatalogSource(settings: ProviderSettings): string {
+  return settings.baseUrl ?? ''
+}
+
+// Bundled entries keep their labels and metadata; models only the provider
+// lists follow them. Those haven't been checked against the structured
+// output API, so they use prompt-only JSON unless the provider vouches for it.
+export function mergeModelCatalog(bundled: ModelOption[], discovered: ModelOption[]): ModelOption[] {
+  const discoveredById = new Map(discovered.map(option => [option.id, option]))
+  const bundledIds = new Set(bundled.map(option => option.id))
+
+  return [
+    ...bundled.map(option => ({ ...discoveredById.get(option.id), ...option })),
+    ...discovered
+      .filter(option => !bundledIds.has(option.id))
+      .map(option => ({ ...option, structuredOutput: option.structuredOutput ?? false }))
+  ]
+}
+
+async function readCache(): Promise<ModelCatalogCache> {
+  const result = await chrome.storage.local.get(MODEL_CATALOG_KEY)
+  return result[MODEL_CATALOG_KEY] ?? {}
+}
+
+async function getCachedModels(provider: LLMProvider, settings: ProviderSettings): Promise<CachedModels | null> {
+  const cached = (await readCache())[provider]
+  return cached && cached.source === getCatalogSource(settings) ? cached : null
+}
+
+// Bundled models plus whatever was last discovered, without going to the network
+export async function getModelCatalog(provider: LLMProvider, settings: ProviderSettings): Promise<ModelOption[]> {
+  const cached = await getCachedModels(provider, settings)
+  return mergeModelCatalog(getProviderAdapter(provider).models, cached?.models ?? [])
+}
+
+// Fetch the provider's model list unless a recent copy is cached. Failures
+// are logged and fall back to the cached and bundled models.
+export async function refreshModelCatalog(
+  provider: LLMProvider,
+  settings: ProviderSettings,
+  force = false
+): Promise<ModelOption[]> {
+  const adapter = getProviderAdapter(provider)
+  const cached = await getCachedModels(provider, settings)
+  if (!force && cached && Date.now() - cached.fetchedAt < MODEL_CATALOG_TTL_MS) {
+    return mergeModelCatalog(adapter.models, cached.models)
+  }
+
+  try {
+    const models = await adapter.listModels(settings)
+    const cache = await readCache()
+    await chrome.storage.local.set({
+      [MODEL_CATALOG_KEY]: { ...cache, [provider]: { models, fetchedAt: Date.now(), source: getCatalogSource(settings) } }
+    })
+    console.log(`📋 Discovered ${models.length} ${adapter.label} models`)
+    return mergeModelCatalog(adapter.models, models)
+  } catch (error) {
+    console.error(`Error listing ${adapter.label} models:`, error)
+    if (force) throw error
+    return mergeModelCatalog(adapter.models, cached?.models ?? [])
+  }
+}
+
+// Metadata for the configured model, or undefined for a custom model id
+export async function findModelOption(provider: LLMProvider, settings: ProviderSettings): Promise<ModelOption | undefined> {
+  return (await getModelCatalog(provider, settings)).find(option => option.id === settings.model)
+}
+
+// Call the listener when any page refreshes the catalog; returns an unsubscribe
+export function subscribeToModelCatalog(listener: () => void): () => void {
+  const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+    if (areaName === 'local' && MODEL_CATALOG_KEY in changes) listener()
+  }
+  chrome.storage.onChanged.addListener(handleChanged)
+  return () => chrome.storage.onChanged.removeListener(handleChanged)
+}
@@ -0,0 +1,49 @@
+import type { ProviderSettings } from '../types'
+import { createOpenAICompatibleAdapter } from './openai'
+
+// Accept the server root or its versioned path:
+// http://localhost:11434 and http://localhost:11434/v1 both give .../v1
+export function getCustomApiRoot(settings: ProviderSettings): string {
+  const baseUrl = settings.baseUrl?.trim().replace(/\/+$/, '') ?? ''
+  if (!baseUrl) return ''
+  return /\/v\d+$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1`
+}
+
+// Match pattern for the host permission a self-hosted server needs, or null for an invalid URL
+export function getHostPermissionPattern(baseUrl: string): string | null {
+  try {
+    const { origin, protocol } = new URL(baseUrl)
+    return protocol === 'http:' || protocol === 'https:' ? `${origin}/*` : null
+  } catch {
+    return null
+  }
+}
+
+export async function hasHostPermission(baseUrl: string): Promise<boolean> {
+  const pattern = getHostPermissionPattern(baseUrl)
+  return !!pattern && chrome.permissions.contains({ origins: [pattern] })
+}
+
+// Must be called while handling a click; Chrome shows its own prompt
+export async function requestHostPermission(baseUrl: string): Promise<boolean> {
+  const pattern = getHostPermissionPattern(baseUrl)
+  if (!pattern) {
+    throw new Error('Enter a valid http:// or https:// server URL')
+  }
+  return chrome.permissions.request({ origins: [pattern] })
+}
+
+// Ollama, LM Studio, vLLM and other servers speaking OpenAI's chat-completions API.
+// Models come from the server; most local models can't be held to a JSON schema.
+export const customAdapter = createOpenAICompatibleAdapter({
+  id: 'custom',
+  label: 'OpenAI-compatible (self-hosted)',
+  baseUrl: getCustomApiRoot,
+  defaultModel: '',
+  defaultContextWindow: 8192,
+  models: [],
+  supportsStructuredOutput: false,
+  apiKeyOptional: true,
+  // Counts are estimated instead when the server leaves them out
+  streamUsage: false
+})
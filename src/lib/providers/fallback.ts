@@ -0,0 +1,112 @@
+import type { LLMProvider, LLMSettings, ProviderSettings } from '../types'
+import { getProviderAdapter } from './index'
+import { ProviderError, ProviderNetworkError } from './types'
+
+// Retries per provider before moving down the chain
+const MAX_RETRIES = 2
+const BASE_BACKOFF_MS = 1000
+// A provider that asks us to wait longer than this is skipped instead
+const MAX_RETRY_AFTER_MS = 30000
+
+export interface ProviderTarget {
+  provider: LLMProvider
+  settings: ProviderSettings
+}
+
+// The current provider followed by the fallback providers whose keys have
+// been validated. Providers never appear twice.
+export function getProviderChain(llm: LLMSettings): ProviderTarget[] {
+  const chain: ProviderTarget[] = []
+  const seen = new Set<LLMProvider>()
+
+  const add = (provider: LLMProvider, requireValidKey: boolean) => {
+    const settings = llm.providers[provider]
+    if (seen.has(provider) || !settings || !getProviderAdapter(provider).isConfigured(settings)) return
+    if (requireValidKey && settings.apiKeyValid !== true) return
+    seen.add(provider)
+    chain.push({ provider, settings })
+  }
+
+  if (llm.currentProvider) add(llm.currentProvider, false)
+  for (const provider of llm.fallbackProviders ?? []) add(provider, true)
+  return chain
+}
+
+// Rate limits, server errors, timeouts and dropped connections may succeed
+// on a retry or with another provider; bad keys and bad requests won't
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof ProviderNetworkError) return true
+  if (error instanceof ProviderError) {
+    return error.status === 408 || error.status === 429 || error.status >= 500
+  }
+  return false
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', handleAbort)
+      resolve()
+    }, ms)
+    const handleAbort = () => {
+      clearTimeout(timeoutId)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', handleAbort, { once: true })
+  })
+}
+
+function getBackoffDelay(attempt: number): number {
+  return BASE_BACKOFF_MS * 2 ** attempt + Math.random() * BASE_BACKOFF_MS / 2
+}
+
+// Called with a target to try. markStarted() should be called once output
+// has reached the user (e.g. the first streamed token); failures after that
+// are not retried, since a second attempt would repeat what was shown.
+export type FallbackAttempt<T> = (target: ProviderTarget, markStarted: () => void) => Promise<T>
+
+export interface FallbackResult<T> {
+  result: T
+  target: ProviderTarget
+}
+
+// Run the attempt against each provider in turn, retrying retryable errors
+// with exponential backoff (or the provider's Retry-After) before falling
+// back. Throws the last error once the chain is exhausted.
+export async function runWithFallback<T>(
+  chain: ProviderTarget[],
+  attempt: FallbackAttempt<T>,
+  signal?: AbortSignal
+): Promise<FallbackResult<T>> {
+  let lastError: unknown = new Error('No AI provider configured')
+
+  for (const target of chain) {
+    const { label } = getProviderAdapter(target.provider)
+
+    for (let retry = 0; retry <= MAX_RETRIES; retry++) {
+      let started = false
+      try {
+        const result = await attempt(target, () => {
+          started = true
+        })
+        return { result, target }
+      } catch (error) {
+        lastError = error
+        if (signal?.aborted || started || !isRetryableError(error)) throw error
+
+        const retryAfter = error instanceof ProviderError ? error.retryAfter : null
+        if (retry === MAX_RETRIES || (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS)) {
+          console.warn(`⚠️ ${label} failed, trying the next provider:`, error)
+          break
+        }
+
+        const delay = retryAfter ?? getBackoffDelay(retry)
+        console.warn(`⏳ ${label} failed, retrying in ${(delay / 1000).toFixed(1)}s:`, error)
+        await sleep(delay, signal)
+      }
+    }
+  }
+
+  throw lastError
+}
@@ -0,0 +1,142 @@
+import { createErrorMapper, hasApiKeyAndModel, toTokenUsage, validateByCompletion } from './base'
+import type { ProviderSettings } from '../types'
+import type { CompletionRequest, JsonSchema, ProviderAdapter, ProviderRequest } from './types'
+
+const GEMINI_BASE_URL = 'https://generativelanguage.googleapis.com/v1beta/models'
+
+interface GeminiModel {
+  name: string
+  displayName?: string
+  inputTokenLimit?: number
+  supportedGenerationMethods?: string[]
+}
+
+// Gemini takes an OpenAPI-style schema: upper-case type names and no
+// additionalProperties
+function toGeminiSchema({ additionalProperties, ...schema }: JsonSchema): Record<string, unknown> {
+  return {
+    ...schema,
+    type: schema.type.toUpperCase(),
+    ...(schema.items && { items: toGeminiSchema(schema.items) }),
+    ...(schema.properties && {
+      properties: Object.fromEntries(
+        Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)])
+      )
+    })
+  }
+}
+
+function buildGenerateRequest(settings: ProviderSettings, request: CompletionRequest, url: string): ProviderRequest {
+  const { prompt, system, history = [], maxTokens = 500, temperature = 0.7, schema } = request
+  return {
+    url,
+    init: {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+        contents: [
+          // Gemini calls the assistant role "model"
+          ...history.map(({ role, content }) => ({
+            role: role === 'assistant' ? 'model' : 'user',
+            parts: [{ text: content }]
+          })),
+          {
+            role: 'user',
+            parts: [{
+              text: prompt
+            }]
+          }
+        ],
+        generationConfig: {
+          temperature,
+          maxOutputTokens: maxTokens,
+          ...(schema && {
+            responseMimeType: 'application/json',
+            responseSchema: toGeminiSchema(schema.schema)
+          })
+        }
+      })
+    }
+  }
+}
+
+export const googleAdapter: ProviderAdapter = {
+  id: 'google',
+  label: 'Google Gemini',
+  defaultModel: 'gemini-2.5-flash',
+  defaultContextWindow: 1048576,
+  supportsStructuredOutput: true,
+  models: [
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', contextWindow: 1048576, pricing: { input: 1.25, output: 10 } },
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', contextWindow: 1048576, pricing: { input: 0.3, output: 2.5 } },
+    { id: 'gemini-1.5-pro', label: 'Gemini 1.5 Pro (Legacy)', contextWindow: 2097152, pricing: { input: 1.25, output: 5 } },
+    { id: 'gemini-1.5-flash', label: 'Gemini 1.5 Flash (Legacy)', contextWindow: 1048576, pricing: { input: 0.075, output: 0.3 } }
+  ],
+
+  buildRequest(settings, request) {
+    return buildGenerateRequest(
+      settings,
+      request,
+      `${GEMINI_BASE_URL}/${settings.model}:generateContent?key=${settings.apiKey}`
+    )
+  },
+
+  buildStreamRequest(settings, request) {
+    return buildGenerateRequest(
+      settings,
+      { ...request, schema: undefined },
+      `${GEMINI_BASE_URL}/${settings.model}:streamGenerateContent?alt=sse&key=${settings.apiKey}`
+    )
+  },
+
+  parseResponse(data) {
+    return data.candidates[0].content.parts[0].text
+  },
+
+  parseStreamEvent(data) {
+    const parts = data.candidates?.[0]?.content?.parts
+    if (!parts) return null
+    return parts.map((part: { text?: string }) => part.text ?? '').join('') || null
+  },
+
+  // Every stream chunk repeats the running totals; thinking tokens are billed as output
+  parseUsage(data) {
+    const usage = data.usageMetadata
+    if (!usage) return null
+    return toTokenUsage(
+      usage.promptTokenCount,
+      usage.candidatesTokenCount === undefined && usage.thoughtsTokenCount === undefined
+        ? undefined
+        : (usage.candidatesTokenCount ?? 0) + (usage.thoughtsTokenCount ?? 0)
+    )
+  },
+
+  mapError: createErrorMapper('google', 'Google'),
+
+  isConfigured: hasApiKeyAndModel,
+
+  validate(settings, signal) {
+    return validateByCompletion(googleAdapter, settings, signal)
+  },
+
+  async listModels(settings, signal) {
+    const response = await fetch(`${GEMINI_BASE_URL}?pageSize=1000&key=${settings.apiKey}`, { signal })
+    if (!response.ok) {
+      throw googleAdapter.mapError(response)
+    }
+
+    const data = await response.json()
+    // Embedding and other non-chat models can't generate content
+    return (data.models ?? [])
+      .filter((model: GeminiModel) => model.supportedGenerationMethods?.includes('generateContent'))
+      .map((model: GeminiModel) => ({
+        id: model.name.replace(/^models\//, ''),
+        label: model.displayName ?? model.name,
+        contextWindow: model.inputTokenLimit,
+        structuredOutput: true
+      }))
+  }
+}
@@ -0,0 +1,89 @@
+import type { LLMProvider, LLMSettings, ProviderSettings } from '../types'
+import { anthropicAdapter } from './anthropic'
+import { customAdapter } from './custom'
+import { googleAdapter } from './google'
+import { openaiAdapter } from './openai'
+import type { ModelOption, ProviderAdapter } from './types'
+import { xaiAdapter } from './xai'
+
+export * from './types'
+export { complete, streamCompletion } from './base'
+export { getHostPermissionPattern, hasHostPermission, requestHostPermission } from './custom'
+export { getProviderChain, isRetryableError, runWithFallback, type FallbackAttempt, type FallbackResult, type ProviderTarget } from './fallback'
+export {
+  MODEL_CATALOG_TTL_MS,
+  findModelOption,
+  getModelCatalog,
+  refreshModelCatalog,
+  subscribeToModelCatalog
+} from './catalog'
+
+const VALIDATION_TIMEOUT_MS = 10000
+
+// Registry of every provider the extension can talk to. Adding a provider
+// means writing an adapter and registering it here.
+export const providerRegistry: Record<LLMProvider, ProviderAdapter> = {
+  anthropic: anthropicAdapter,
+  openai: openaiAdapter,
+  google: googleAdapter,
+  xai: xaiAdapter,
+  custom: customAdapter
+}
+
+export function getProviderAdapter(provider: LLMProvider | ''): ProviderAdapter {
+  const adapter = provider ? providerRegistry[provider] : undefined
+  if (!adapter) {
+    throw new Error('Unsupported provider')
+  }
+  return adapter
+}
+
+export function listProviderAdapters(): ProviderAdapter[] {
+  return Object.values(providerRegistry)
+}
+
+export function getDefaultProviderSettings(): Record<LLMProvider, ProviderSettings> {
+  const providers = {} as Record<LLMProvider, ProviderSettings>
+  for (const adapter of listProviderAdapters()) {
+    providers[adapter.id] = { apiKey: '', model: adapter.defaultModel }
+  }
+  return providers
+}
+
+// Takes the model's catalog entry from findModelOption; custom model ids have none
+export function getContextWindow(provider: LLMProvider, option?: ModelOption): number {
+  return option?.contextWindow ?? getProviderAdapter(provider).defaultContextWindow
+}
+
+// Custom model ids fall back to prompt-only JSON, which every model can produce
+export function supportsStructuredOutput(provider: LLMProvider, option?: ModelOption): boolean {
+  return getProviderAdapter(provider).supportsStructuredOutput && !!option && option.structuredOutput !== false
+}
+
+export function getCurrentProviderSettings(settings: LLMSettings): ProviderSettings | undefined {
+  return settings.currentProvider ? settings.providers[settings.currentProvider] : undefined
+}
+
+// Whether the current provider has what it needs (key, model, server URL) to make a request
+export function isProviderConfigured(settings: LLMSettings): boolean {
+  const current = getCurrentProviderSettings(settings)
+  return !!settings.currentProvider && !!current && getProviderAdapter(settings.currentProvider).isConfigured(current)
+}
+
+// Validate a provider key with a bounded timeout so a blocked host can't hang the UI
+export async function validateProviderKey(provider: LLMProvider, settings: ProviderSettings): Promise<boolean> {
+  const adapter = getProviderAdapter(provider)
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), VALIDATION_TIMEOUT_MS)
+
+  try {
+    return await adapter.validate(settings, controller.signal)
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new Error(`API call timed out - connection to ${adapter.label} may be blocked or slow`)
+    }
+    throw error
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
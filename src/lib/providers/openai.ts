@@ -0,0 +1,141 @@
+import type { LLMProvider, ProviderSettings } from '../types'
+import { createErrorMapper, toTokenUsage, validateByCompletion } from './base'
+import type { CompletionRequest, ModelOption, ProviderAdapter, ProviderRequest } from './types'
+
+interface OpenAICompatibleOptions {
+  id: LLMProvider
+  label: string
+  // API root, or a function reading it from the settings for self-hosted servers
+  baseUrl: string | ((settings: ProviderSettings) => string)
+  defaultModel: string
+  defaultContextWindow: number
+  models: ModelOption[]
+  supportsStructuredOutput?: boolean
+  // Local servers often run without authentication
+  apiKeyOptional?: boolean
+  // Drop listed models that can't chat (embeddings, audio, images, ...)
+  isChatModel?: (id: string) => boolean
+  // Ask for token counts at the end of a stream; not every server accepts stream_options
+  streamUsage?: boolean
+}
+
+// OpenAI's chat-completions format is shared by several vendors (xAI, ...)
+// and by self-hosted servers such as Ollama, LM Studio and vLLM
+export function createOpenAICompatibleAdapter(options: OpenAICompatibleOptions): ProviderAdapter {
+  const getBaseUrl = (settings: ProviderSettings) =>
+    typeof options.baseUrl === 'function' ? options.baseUrl(settings) : options.baseUrl
+
+  const buildHeaders = (settings: ProviderSettings): Record<string, string> => ({
+    'Content-Type': 'application/json',
+    ...(settings.apiKey && { 'Authorization': `Bearer ${settings.apiKey}` }),
+    ...settings.headers
+  })
+
+  const buildChatRequest = (settings: ProviderSettings, request: CompletionRequest, stream: boolean): ProviderRequest => {
+    const { prompt, system, history = [], maxTokens = 500, temperature = 0.7, schema } = request
+    const body: Record<string, unknown> = {
+      model: settings.model,
+      messages: [
+        ...(system ? [{ role: 'system', content: system }] : []),
+        ...history.map(({ role, content }) => ({ role, content })),
+        {
+          role: 'user',
+          content: prompt
+        }
+      ],
+      max_tokens: maxTokens,
+      temperature,
+      stream,
+      ...(stream && (options.streamUsage ?? true) && { stream_options: { include_usage: true } })
+    }
+
+    if (schema && !stream) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: schema.name, description: schema.description, schema: schema.schema, strict: true }
+      }
+    }
+
+    return {
+      url: `${getBaseUrl(settings)}/chat/completions`,
+      init: {
+        method: 'POST',
+        headers: buildHeaders(settings),
+        body: JSON.stringify(body)
+      }
+    }
+  }
+
+  const adapter: ProviderAdapter = {
+    id: options.id,
+    label: options.label,
+    defaultModel: options.defaultModel,
+    defaultContextWindow: options.defaultContextWindow,
+    models: options.models,
+    supportsStructuredOutput: options.supportsStructuredOutput ?? true,
+
+    buildRequest(settings, request) {
+      return buildChatRequest(settings, request, false)
+    },
+
+    buildStreamRequest(settings, request) {
+      return buildChatRequest(settings, request, true)
+    },
+
+    parseResponse(data) {
+      return data.choices[0].message.content
+    },
+
+    parseStreamEvent(data) {
+      return data.choices?.[0]?.delta?.content ?? null
+    },
+
+    // Streams carry usage in a final chunk with no choices
+    parseUsage(data) {
+      return data.usage ? toTokenUsage(data.usage.prompt_tokens, data.usage.completion_tokens) : null
+    },
+
+    mapError: createErrorMapper(options.id, options.label),
+
+    isConfigured(settings) {
+      return !!getBaseUrl(settings) && !!settings.model && (options.apiKeyOptional || !!settings.apiKey)
+    },
+
+    validate(settings, signal) {
+      return validateByCompletion(adapter, settings, signal)
+    },
+
+    async listModels(settings, signal) {
+      const response = await fetch(`${getBaseUrl(settings)}/models`, { headers: buildHeaders(settings), signal })
+      if (!response.ok) {
+        throw adapter.mapError(response)
+      }
+
+      const data = await response.json()
+      const isChatModel = options.isChatModel ?? (() => true)
+      return (data.data ?? [])
+        .filter((model: { id: string }) => isChatModel(model.id))
+        .map((model: { id: string }) => ({ id: model.id, label: model.id }))
+        .sort((a: ModelOption, b: ModelOption) => a.id.localeCompare(b.id))
+    }
+  }
+
+  return adapter
+}
+
+export const openaiAdapter = createOpenAICompatibleAdapter({
+  id: 'openai',
+  label: 'OpenAI',
+  baseUrl: 'https://api.openai.com/v1',
+  defaultModel: 'gpt-4o',
+  defaultContextWindow: 128000,
+  models: [
+    { id: 'gpt-4o', label: 'GPT-4o', contextWindow: 128000, pricing: { input: 2.5, output: 10 } },
+    { id: 'gpt-4o-mini', label: 'GPT-4o Mini', contextWindow: 128000, pricing: { input: 0.15, output: 0.6 } },
+    { id: 'gpt-4-turbo', label: 'GPT-4 Turbo', contextWindow: 128000, structuredOutput: false, pricing: { input: 10, output: 30 } }
+  ],
+  // The o-series reasoning models reject max_tokens and temperature, and spend
+  // the small output budgets used here on hidden reasoning
+  isChatModel: (id) =>
+    /^(gpt-|chatgpt-)/.test(id) && !/(audio|realtime|transcribe|tts|image|search|instruct)/.test(id)
+})
@@ -0,0 +1,112 @@
+import type { LLMProvider, ProviderSettings, TokenUsage } from '../types'
+
+// US dollars per million tokens
+export interface ModelPricing {
+  input: number
+  output: number
+}
+
+export interface ModelOption {
+  id: string
+  label: string
+  contextWindow?: number
+  // Set to false for models that predate the provider's structured output API
+  structuredOutput?: boolean
+  pricing?: ModelPricing
+}
+
+// The subset of JSON Schema that every provider's structured output accepts
+export interface JsonSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean'
+  description?: string
+  enum?: string[]
+  items?: JsonSchema
+  properties?: Record<string, JsonSchema>
+  required?: string[]
+  additionalProperties?: boolean
+}
+
+export interface ResponseSchema {
+  name: string
+  description: string
+  schema: JsonSchema
+}
+
+// An earlier turn of a conversation, sent before the prompt
+export interface ChatTurn {
+  role: 'user' | 'assistant'
+  content: string
+}
+
+export interface CompletionRequest {
+  prompt: string
+  system?: string
+  history?: ChatTurn[]
+  maxTokens?: number
+  temperature?: number
+  // Ask for JSON matching this schema; only honoured by non-streaming requests
+  // to adapters with supportsStructuredOutput
+  schema?: ResponseSchema
+}
+
+export interface ProviderRequest {
+  url: string
+  init: RequestInit
+}
+
+export interface ProviderAdapter {
+  id: LLMProvider
+  label: string
+  defaultModel: string
+  // Bundled catalog with context windows and pricing; merged with the
+  // models listModels discovers
+  models: ModelOption[]
+  // Used for models that aren't listed or don't declare their own window
+  defaultContextWindow: number
+  // Whether buildRequest can constrain the reply to CompletionRequest.schema
+  supportsStructuredOutput: boolean
+
+  // Build the fetch call for a single, non-streaming completion
+  buildRequest(settings: ProviderSettings, request: CompletionRequest): ProviderRequest
+  // Same request with token streaming turned on (server-sent events)
+  buildStreamRequest(settings: ProviderSettings, request: CompletionRequest): ProviderRequest
+  // Pull the completion text out of a successful JSON response. Structured
+  // requests resolve to the JSON document as text.
+  parseResponse(data: any): string
+  // Pull the text delta out of one parsed SSE event, or null if it carries none
+  parseStreamEvent(data: any): string | null
+  // Token counts from a JSON response or SSE event. Stream events may each
+  // carry only some of the counts; later values replace earlier ones.
+  parseUsage(data: any): Partial<TokenUsage> | null
+  // Turn a non-OK response into an error the UI can show
+  mapError(response: Response): ProviderError
+  // Whether the settings hold everything a request needs
+  isConfigured(settings: ProviderSettings): boolean
+  // Resolve true if the key and model can serve a request, throw otherwise
+  validate(settings: ProviderSettings, signal?: AbortSignal): Promise<boolean>
+  // Fetch the models the account or server can use from the list-models endpoint
+  listModels(settings: ProviderSettings, signal?: AbortSignal): Promise<ModelOption[]>
+}
+
+export class ProviderError extends Error {
+  provider: LLMProvider
+  status: number
+  retryAfter: number | null
+
+  constructor(provider: LLMProvider, message: string, status = 0, retryAfter: number | null = null) {
+    super(message)
+    this.name = 'ProviderError'
+    this.provider = provider
+    this.status = status
+    this.retryAfter = retryAfter
+  }
+}
+
+// fetch() itself failed, so the provider was never reached: offline, DNS or
+// a dropped connection
+export class ProviderNetworkError extends ProviderError {
+  constructor(provider: LLMProvider, message: string) {
+    super(provider, message)
+    this.name = 'ProviderNetworkError'
+  }
+}
@@ -0,0 +1,17 @@
+import { createOpenAICompatibleAdapter } from './openai'
+
+export const xaiAdapter = createOpenAICompatibleAdapter({
+  id: 'xai',
+  label: 'xAI',
+  baseUrl: 'https://api.x.ai/v1',
+  defaultModel: 'grok-2-1212',
+  defaultContextWindow: 131072,
+  models: [
+    { id: 'grok-2-1212', label: 'Grok 2 (Latest)', contextWindow: 131072, pricing: { input: 2, output: 10 } },
+    { id: 'grok-2-vision-1212', label: 'Grok 2 Vision (Latest)', contextWindow: 32768, pricing: { input: 2, output: 10 } },
+    { id: 'grok-code-fast-1', label: 'Grok Code Fast', contextWindow: 256000, pricing: { input: 0.2, output: 1.5 } },
+    { id: 'grok-beta', label: 'Grok Beta (Legacy)', contextWindow: 131072, structuredOutput: false, pricing: { input: 5, output: 15 } },
+    { id: 'grok-vision-beta', label: 'Grok Vision Beta (Legacy)', contextWindow: 8192, structuredOutput: false, pricing: { input: 5, output: 15 } }
+  ],
+  isChatModel: (id) => !id.includes('image')
+})
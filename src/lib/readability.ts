@@ -0,0 +1,54 @@
+import { Readability } from '@mozilla/readability'
+import TurndownService from 'turndown'
+import { gfm } from 'turndown-plugin-gfm'
+import { MIN_ARTICLE_LENGTH, type ExtractedPage, type PageSnapshot } from './extraction'
+
+let turndown: TurndownService | null = null
+
+function getTurndown(): TurndownService {
+  if (!turndown) {
+    turndown = new TurndownService({
+      headingStyle: 'atx',
+      codeBlockStyle: 'fenced',
+      bulletListMarker: '-'
+    })
+    turndown.use(gfm)
+    // Images and embeds only cost tokens; the model can't see them
+    turndown.remove(['script', 'style', 'noscript', 'iframe', 'img'])
+  }
+  return turndown
+}
+
+export function htmlToMarkdown(html: string): string {
+  return getTurndown()
+    .turndown(html)
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+}
+
+// Needs a DOM, so this runs in the offscreen document rather than the service worker
+export function parseArticle(snapshot: PageSnapshot): ExtractedPage | null {
+  const doc = new DOMParser().parseFromString(snapshot.html, 'text/html')
+
+  // Resolve relative links against the page, not the extension
+  const base = doc.createElement('base')
+  base.href = snapshot.url
+  doc.head.prepend(base)
+
+  const article = new Readability(doc).parse()
+  if (!article?.content || (article.textContent ?? '').trim().length < MIN_ARTICLE_LENGTH) {
+    return null
+  }
+
+  return {
+    content: htmlToMarkdown(article.content),
+    format: 'markdown',
+    metadata: {
+      byline: article.byline || undefined,
+      siteName: article.siteName || undefined,
+      publishedTime: article.publishedTime || undefined,
+      language: article.lang || snapshot.language || undefined,
+      excerpt: article.excerpt || undefined
+    }
+  }
+}
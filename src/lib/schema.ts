@@ -0,0 +1,74 @@
+import type { JsonSchema } from './providers'
+
+export type SchemaValidation<T> =
+  | { success: true; data: T }
+  | { success: false; errors: string[] }
+
+// Find the first JSON object in a model reply, tolerating ```json fences and
+// prose before or after it. Returns undefined when nothing parses.
+export function extractJson(text: string): unknown {
+  const fenced = text.match(/```(?:json)?\s*([\s\S]*?)```/i)
+  const source = fenced ? fenced[1] : text
+  const start = source.indexOf('{')
+  if (start === -1) return undefined
+
+  // Walk to the matching closing brace, skipping braces inside strings
+  let depth = 0
+  let inString = false
+  for (let index = start; index < source.length; index++) {
+    const char = source[index]
+    if (inString) {
+      if (char === '\\') index++
+      else if (char === '"') inString = false
+    } else if (char === '"') {
+      inString = true
+    } else if (char === '{') {
+      depth++
+    } else if (char === '}' && --depth === 0) {
+      try {
+        return JSON.parse(source.slice(start, index + 1))
+      } catch {
+        return undefined
+      }
+    }
+  }
+  return undefined
+}
+
+// Check a parsed value against the schema subset providers accept. Returns one
+// readable message per problem, which also feeds the repair prompt.
+export function validateJson(value: unknown, schema: JsonSchema, path = 'response'): string[] {
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return [`${path} must be an object`]
+      }
+      const record = value as Record<string, unknown>
+      const errors: string[] = []
+      for (const key of schema.required ?? []) {
+        if (record[key] === undefined) errors.push(`${path}.${key} is required`)
+      }
+      for (const [key, property] of Object.entries(schema.properties ?? {})) {
+        if (record[key] !== undefined) errors.push(...validateJson(record[key], property, `${path}.${key}`))
+      }
+      return errors
+    }
+    case 'array':
+      if (!Array.isArray(value)) return [`${path} must be an array`]
+      return schema.items
+        ? value.flatMap((item, index) => validateJson(item, schema.items!, `${path}[${index}]`))
+        : []
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`]
+      if (schema.enum && !schema.enum.includes(value)) {
+        return [`${path} must be one of ${schema.enum.join(', ')} (got "${value}")`]
+      }
+      return []
+    case 'number':
+      return typeof value === 'number' ? [] : [`${path} must be a number`]
+    case 'integer':
+      return Number.isInteger(value) ? [] : [`${path} must be an integer`]
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be a boolean`]
+  }
+}
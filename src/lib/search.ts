@@ -0,0 +1,19 @@
+import type { SummaryResult } from './types'
+
+const MIN_TOKEN_LENGTH = 2
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has',
+  'have', 'in', 'is', 'it', 'its', 'of', 'on', 'or', 'that', 'the', 'this', 'to',
+  'was', 'were', 'will', 'with'
+])
+
+// Lowercased word tokens, deduplicated, without stop words
+export function tokenize(text: string): string[] {
+  const words = text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []
+  return [...new Set(words.filter(word => word.length >= MIN_TOKEN_LENGTH && !STOP_WORDS.has(word)))]
+}
+
+export function tokenizeSummary(summary: Pick<SummaryResult, 'title' | 'summary'>): string[] {
+  return tokenize(`${summary.title} ${summary.summary}`)
+}
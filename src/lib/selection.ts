@@ -0,0 +1,25 @@
+import type { SelectionAction } from './types'
+
+// chrome.storage.session key holding the latest result shown in the side panel
+export const SELECTION_RESULT_KEY = 'selectionResult'
+
+export interface SelectionActionOption {
+  id: SelectionAction
+  // Context menu entry; the matching keyboard command is `${id}-selection`
+  title: string
+  heading: string
+}
+
+export const SELECTION_ACTIONS: SelectionActionOption[] = [
+  { id: 'summarize', title: 'Summarize selection', heading: 'Summary' },
+  { id: 'explain', title: 'Explain selection', heading: 'Explanation' },
+  { id: 'translate', title: 'Translate selection', heading: 'Translation' }
+]
+
+export function findSelectionAction(id: string | number): SelectionActionOption | undefined {
+  return SELECTION_ACTIONS.find(action => action.id === id)
+}
+
+export function findSelectionActionForCommand(command: string): SelectionActionOption | undefined {
+  return SELECTION_ACTIONS.find(action => `${action.id}-selection` === command)
+}
@@ -0,0 +1,206 @@
+import { get, del } from 'idb-keyval'
+import type { AppSettings, LLMProvider, LLMSettings } from './types'
+import { getDefaultProviderSettings } from './providers'
+import { DEFAULT_TEMPLATE_ID } from './templates'
+import { keyVault, type ApiKeys } from './vault'
+
+// Settings live in chrome.storage.local so the popup, the side panel and the
+// background worker all read the same copy and hear about each other's changes
+const SETTINGS_KEY = 'settings'
+
+// Bump when the stored shape changes and add a migration below
+export const SETTINGS_VERSION = 2
+
+// Where settings were kept before version 1
+const LEGACY_LOCAL_KEYS = ['llmSettings', 'theme']
+const LEGACY_IDB_SETTINGS_KEY = 'settings'
+const LEGACY_IDB_LLM_SETTINGS_KEY = 'llm_settings'
+
+type StoredSettings = Partial<AppSettings> & { version?: number }
+
+export function getDefaultSettings(): AppSettings {
+  return {
+    llm: {
+      currentProvider: 'anthropic',
+      providers: getDefaultProviderSettings(),
+      temperature: 0.7,
+      maxTokens: 1000
+    },
+    theme: 'light',
+    autoSummarize: true,
+    autoSummarizePatterns: [],
+    summaryLength: 'brief',
+    minComments: 5,
+    enabledSites: [],
+    customSelectors: [],
+    promptTemplates: [],
+    defaultTemplateId: DEFAULT_TEMPLATE_ID,
+    selectionOutput: 'overlay',
+    usageBudget: { monthlyLimit: null, onExceeded: 'warn' }
+  }
+}
+
+// Fill in fields and providers added since the settings were saved
+function withDefaults({ version, ...stored }: StoredSettings): AppSettings {
+  const defaults = getDefaultSettings()
+  return {
+    ...defaults,
+    ...stored,
+    llm: {
+      ...defaults.llm,
+      ...stored.llm,
+      providers: { ...defaults.llm.providers, ...stored.llm?.providers }
+    }
+  }
+}
+
+// API keys are kept encrypted in the vault, never in the settings themselves
+function getApiKeys(llm: LLMSettings): ApiKeys {
+  return Object.fromEntries(
+    Object.entries(llm.providers).map(([provider, settings]) => [provider, settings.apiKey])
+  )
+}
+
+function withApiKeys(llm: LLMSettings, keys: ApiKeys | null): LLMSettings {
+  const providers = { ...llm.providers }
+  for (const provider of Object.keys(providers) as LLMProvider[]) {
+    providers[provider] = { ...providers[provider], apiKey: keys?.[provider] ?? '' }
+  }
+  return { ...llm, providers }
+}
+
+// The first releases stored a single provider as { provider, apiKey, model }
+function migrateFlatLLMSettings(stored: any): LLMSettings | undefined {
+  if (!stored) return undefined
+  if (!(stored.provider && stored.apiKey && stored.model)) return stored
+
+  console.log(`🔄 Migrating single-provider settings for ${stored.provider}...`)
+  const provider: LLMProvider = stored.provider
+  const providers = getDefaultProviderSettings()
+  providers[provider] = { apiKey: stored.apiKey, model: stored.model }
+  return { currentProvider: provider, providers }
+}
+
+// migrations[n] lifts stored settings from version n to n + 1
+const migrations: Array<(stored: StoredSettings) => Promise<StoredSettings>> = [
+  // 0 → 1: gather settings split between chrome.storage.local and idb-keyval
+  async (stored) => {
+    const local = await chrome.storage.local.get(LEGACY_LOCAL_KEYS)
+    const appSettings: Partial<AppSettings> | undefined = await get(LEGACY_IDB_SETTINGS_KEY)
+    const llmSettings: LLMSettings | undefined = await get(LEGACY_IDB_LLM_SETTINGS_KEY)
+
+    // The background worker only ever read chrome.storage.local, so its copy wins
+    const llm = migrateFlatLLMSettings(local.llmSettings) ?? llmSettings ?? appSettings?.llm
+    return {
+      ...appSettings,
+      ...stored,
+      ...(llm && { llm }),
+      ...(local.theme && { theme: local.theme })
+    }
+  },
+  // 1 → 2: move plaintext API keys into the encrypted vault
+  async (stored) => {
+    if (!stored.llm) return stored
+
+    await keyVault.sealKeys(getApiKeys(stored.llm))
+    return { ...stored, llm: withApiKeys(stored.llm, null) }
+  }
+]
+
+async function removeLegacySettings(): Promise<void> {
+  await chrome.storage.local.remove(LEGACY_LOCAL_KEYS)
+  await del(LEGACY_IDB_SETTINGS_KEY)
+  await del(LEGACY_IDB_LLM_SETTINGS_KEY)
+}
+
+export class SettingsStorage {
+  private migrating: Promise<void> | null = null
+
+  private async readSettings(): Promise<StoredSettings> {
+    const result = await chrome.storage.local.get(SETTINGS_KEY)
+    return result[SETTINGS_KEY] ?? {}
+  }
+
+  private async isMigrated(): Promise<boolean> {
+    return ((await this.readSettings()).version ?? 0) >= SETTINGS_VERSION
+  }
+
+  // Run any pending migrations once per context. Another context may finish
+  // first and remove the legacy settings, so each step and the final write
+  // are skipped once the stored settings are current.
+  private migrate(): Promise<void> {
+    if (!this.migrating) {
+      this.migrating = (async () => {
+        let stored = await this.readSettings()
+        const fromVersion = stored.version ?? 0
+        if (fromVersion >= SETTINGS_VERSION) return
+
+        for (let version = fromVersion; version < SETTINGS_VERSION; version++) {
+          if (await this.isMigrated()) return
+          stored = await migrations[version](stored)
+        }
+        if (await this.isMigrated()) return
+        await chrome.storage.local.set({ [SETTINGS_KEY]: { ...stored, version: SETTINGS_VERSION } })
+        if (fromVersion === 0) await removeLegacySettings()
+        console.log(`✅ Migrated settings from version ${fromVersion} to ${SETTINGS_VERSION}`)
+      })()
+      this.migrating.catch(() => {
+        this.migrating = null
+      })
+    }
+    return this.migrating
+  }
+
+  // Throws if the settings or keys can't be read; anything that writes
+  // settings back must read them this way
+  async loadSettings(): Promise<AppSettings> {
+    await this.migrate()
+    const settings = withDefaults(await this.readSettings())
+    // Keys read as empty while the vault is locked
+    return { ...settings, llm: withApiKeys(settings.llm, await keyVault.openKeys()) }
+  }
+
+  // For display: falls back to the defaults if the settings can't be read
+  async getSettings(): Promise<AppSettings> {
+    try {
+      return await this.loadSettings()
+    } catch (error) {
+      console.error('Error getting settings:', error)
+      return getDefaultSettings()
+    }
+  }
+
+  async updateSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
+    const newSettings = { ...await this.loadSettings(), ...updates }
+    if (updates.llm && !(await keyVault.sealKeys(getApiKeys(newSettings.llm)))) {
+      console.warn('🔒 API keys are locked and were not changed')
+    }
+    await chrome.storage.local.set({
+      [SETTINGS_KEY]: { ...newSettings, llm: withApiKeys(newSettings.llm, null), version: SETTINGS_VERSION }
+    })
+    return await this.loadSettings()
+  }
+
+  async updateLLMSettings(updates: Partial<LLMSettings>): Promise<LLMSettings> {
+    const { llm } = await this.loadSettings()
+    const settings = await this.updateSettings({ llm: { ...llm, ...updates } })
+    return settings.llm
+  }
+
+  // Call the listener whenever any context saves settings, or the key vault
+  // locks or unlocks; returns an unsubscribe
+  subscribe(listener: (settings: AppSettings) => void): () => void {
+    const notify = () => this.getSettings().then(listener)
+    const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && changes[SETTINGS_KEY]?.newValue) notify()
+    }
+    chrome.storage.onChanged.addListener(handleChanged)
+    const unsubscribeVault = keyVault.subscribe(notify)
+    return () => {
+      chrome.storage.onChanged.removeListener(handleChanged)
+      unsubscribeVault()
+    }
+  }
+}
+
+export const settingsStorage = new SettingsStorage()
@@ -0,0 +1,30 @@
+import type { SiteConfig } from './types'
+
+// A rule for "example.com" also covers "docs.example.com"
+export function matchesDomain(hostname: string, domain: string): boolean {
+  const normalized = domain.trim().toLowerCase().replace(/^\*\./, '')
+  const host = hostname.toLowerCase()
+  return host === normalized || host.endsWith(`.${normalized}`)
+}
+
+// Most specific enabled rule for a hostname, if any
+export function findSiteConfig(sites: SiteConfig[], hostname: string): SiteConfig | null {
+  const matches = sites
+    .filter(site => site.enabled && site.selectors.length > 0 && matchesDomain(hostname, site.domain))
+    .sort((a, b) => b.domain.length - a.domain.length)
+  return matches[0] || null
+}
+
+// Append a selector to the rule for this hostname, creating the rule if needed
+export function addSelectorToSites(sites: SiteConfig[], hostname: string, selector: string): SiteConfig[] {
+  const existing = sites.find(site => matchesDomain(hostname, site.domain))
+  if (!existing) {
+    return [...sites, { domain: hostname, name: hostname, selectors: [selector], enabled: true }]
+  }
+
+  return sites.map(site =>
+    site === existing && !site.selectors.includes(selector)
+      ? { ...site, selectors: [...site.selectors, selector] }
+      : site
+  )
+}
@@ -1,13 +1,123 @@
-import { get, set, del, keys, clear } from 'idb-keyval'
-import type { SummaryResult, AppSettings, LLMSettings } from './types'
+import { get, set, del, keys } from 'idb-keyval'
+import type { SummaryResult, ChatMessage, GeneratedSummary, SummarySearchFilters } from './types'
+import {
+  SNAPSHOTS_STORE,
+  SUMMARIES_STORE,
+  TOKENS_STORE,
+  openDatabase,
+  promisifyRequest,
+  transactionDone,
+  type ContentSnapshot,
+  type TokenEntry
+} from './db'
+import { tokenize, tokenizeSummary } from './search'
+import { canonicalizeUrl } from './cacheKeys'
+import { getHostname } from './utils'
 
 const SUMMARIES_PREFIX = 'summary:'
-const SETTINGS_KEY = 'settings'
-const LLM_SETTINGS_KEY = 'llm_settings'
 const STATS_KEY = 'stats'
 
+// Summaries are stored with their hostname so it can be indexed
+type StoredSummary = SummaryResult & { hostname: string }
+
+function toStoredSummary(summary: SummaryResult): StoredSummary {
+  return {
+    ...summary,
+    canonicalUrl: summary.canonicalUrl ?? canonicalizeUrl(summary.url),
+    hostname: getHostname(summary.url)
+  }
+}
+
+function fromStoredSummary({ hostname, ...summary }: StoredSummary): SummaryResult {
+  return summary
+}
+
+function sortNewestFirst(summaries: SummaryResult[]): SummaryResult[] {
+  return summaries.sort((a, b) =>
+    new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+  )
+}
+
+function matchesFilters(summary: StoredSummary, filters: SummarySearchFilters): boolean {
+  if (filters.hostname && summary.hostname !== filters.hostname) return false
+  if (filters.sentiment && summary.sentiment !== filters.sentiment) return false
+  if (filters.keyTheme && !summary.keyThemes.includes(filters.keyTheme)) return false
+  if (filters.from && summary.createdAt < filters.from) return false
+  if (filters.to && summary.createdAt > filters.to) return false
+  return true
+}
+
+async function addToTokenIndex(tokens: IDBObjectStore, id: string, words: string[]) {
+  for (const token of words) {
+    const entry: TokenEntry | undefined = await promisifyRequest(tokens.get(token))
+    const ids = entry ? entry.ids.filter(existing => existing !== id) : []
+    await promisifyRequest(tokens.put({ token, ids: [...ids, id] }))
+  }
+}
+
+async function removeFromTokenIndex(tokens: IDBObjectStore, id: string, words: string[]) {
+  for (const token of words) {
+    const entry: TokenEntry | undefined = await promisifyRequest(tokens.get(token))
+    if (!entry) continue
+
+    const ids = entry.ids.filter(existing => existing !== id)
+    if (ids.length > 0) {
+      await promisifyRequest(tokens.put({ token, ids }))
+    } else {
+      await promisifyRequest(tokens.delete(token))
+    }
+  }
+}
+
 export class SummaryStorage {
-  async createSummary(summaryData: Omit<SummaryResult, 'id' | 'createdAt'>): Promise<SummaryResult> {
+  private ready: Promise<IDBDatabase> | null = null
+
+  // Open the database, moving summaries from the old idb-keyval layout on first use
+  private getDatabase(): Promise<IDBDatabase> {
+    if (!this.ready) {
+      this.ready = openDatabase().then(async (db) => {
+        await this.migrateLegacySummaries(db)
+        return db
+      })
+      this.ready.catch(() => {
+        this.ready = null
+      })
+    }
+    return this.ready
+  }
+
+  private async migrateLegacySummaries(db: IDBDatabase): Promise<void> {
+    const allKeys = await keys()
+    const legacyKeys = allKeys.filter(key =>
+      typeof key === 'string' && key.startsWith(SUMMARIES_PREFIX)
+    )
+    if (legacyKeys.length === 0) return
+
+    console.log(`🔄 Migrating ${legacyKeys.length} summaries to indexed storage...`)
+    for (const key of legacyKeys) {
+      const summary: SummaryResult | undefined = await get(key)
+      if (summary) await this.writeSummary(db, summary)
+      await del(key)
+    }
+  }
+
+  private async writeSummary(db: IDBDatabase, summary: SummaryResult): Promise<void> {
+    const transaction = db.transaction([SUMMARIES_STORE, TOKENS_STORE], 'readwrite')
+    const done = transactionDone(transaction)
+    const summaries = transaction.objectStore(SUMMARIES_STORE)
+    const tokens = transaction.objectStore(TOKENS_STORE)
+
+    const previous: StoredSummary | undefined = await promisifyRequest(summaries.get(summary.id))
+    if (previous) {
+      await removeFromTokenIndex(tokens, summary.id, tokenizeSummary(previous))
+    }
+
+    await promisifyRequest(summaries.put(toStoredSummary(summary)))
+    await addToTokenIndex(tokens, summary.id, tokenizeSummary(summary))
+    await done
+  }
+
+  async createSummary({ snapshot, ...summaryData }: Omit<GeneratedSummary, 'id' | 'createdAt'>): Promise<SummaryResult> {
     const id = crypto.randomUUID()
     const createdAt = new Date().toISOString()
     
@@ -17,7 +127,10 @@ export class SummaryStorage {
       ...summaryData
     }
     
-    await set(`${SUMMARIES_PREFIX}${id}`, summary)
+    await this.writeSummary(await this.getDatabase(), summary)
+    if (snapshot && summary.contentHash) {
+      await this.saveSnapshot(summary.contentHash, snapshot)
+    }
     await this.updateStats()
     
     return summary
@@ -25,18 +138,41 @@ export class SummaryStorage {
   
   async getSummary(id: string): Promise<SummaryResult | null> {
     try {
-      const summary = await get(`${SUMMARIES_PREFIX}${id}`)
-      return summary || null
+      const db = await this.getDatabase()
+      const summary: StoredSummary | undefined = await promisifyRequest(
+        db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).get(id)
+      )
+      return summary ? fromStoredSummary(summary) : null
     } catch (error) {
       console.error('Error getting summary:', error)
       return null
     }
   }
   
-  async getSummaryByUrl(url: string): Promise<SummaryResult | null> {
+  // Replace the follow-up conversation stored with a summary
+  async updateChat(id: string, chat: ChatMessage[]): Promise<SummaryResult | null> {
+    const summary = await this.getSummary(id)
+    if (!summary) return null
+
+    const updated = { ...summary, chat }
+    await this.writeSummary(await this.getDatabase(), updated)
+    return updated
+  }
+  
+  // Newest summary of the page, matching tracking-parameter variants of the
+  // URL and, when the caller knows it, the page's declared canonical URL
+  async getSummaryByUrl(url: string, canonicalUrl?: string): Promise<SummaryResult | null> {
     try {
-      const allSummaries = await this.getAllSummaries()
-      return allSummaries.find(summary => summary.url === url) || null
+      const db = await this.getDatabase()
+      const summaries = db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE)
+      const canonicalUrls = [...new Set([canonicalizeUrl(url), canonicalUrl ?? canonicalizeUrl(url)])]
+
+      const found: StoredSummary[][] = await Promise.all([
+        promisifyRequest(summaries.index('url').getAll(url)),
+        ...canonicalUrls.map(key => promisifyRequest(summaries.index('canonicalUrl').getAll(key)))
+      ])
+      const matches = [...new Map(found.flat().map(summary => [summary.id, summary])).values()]
+      return sortNewestFirst(matches.map(fromStoredSummary))[0] || null
     } catch (error) {
       console.error('Error getting summary by URL:', error)
       return null
@@ -45,29 +181,82 @@ export class SummaryStorage {
   
   async getAllSummaries(): Promise<SummaryResult[]> {
     try {
-      const allKeys = await keys()
-      const summaryKeys = allKeys.filter(key => 
-        typeof key === 'string' && key.startsWith(SUMMARIES_PREFIX)
+      const db = await this.getDatabase()
+      const summaries: StoredSummary[] = await promisifyRequest(
+        db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).index('createdAt').getAll()
       )
-      
-      const summaries: SummaryResult[] = []
-      for (const key of summaryKeys) {
-        const summary = await get(key)
-        if (summary) summaries.push(summary)
+      return summaries.reverse().map(fromStoredSummary)
+    } catch (error) {
+      console.error('Error getting all summaries:', error)
+      return []
+    }
+  }
+  
+  // Every query word must match (as a prefix) a word in the title or summary
+  async searchSummaries(query: string, filters: SummarySearchFilters = {}): Promise<SummaryResult[]> {
+    try {
+      const db = await this.getDatabase()
+      const transaction = db.transaction([SUMMARIES_STORE, TOKENS_STORE])
+      const summaries = transaction.objectStore(SUMMARIES_STORE)
+      const queryTokens = tokenize(query)
+
+      let candidates: StoredSummary[]
+      if (queryTokens.length > 0) {
+        const tokens = transaction.objectStore(TOKENS_STORE)
+        let matchingIds: string[] | null = null
+
+        for (const token of queryTokens) {
+          const entries: TokenEntry[] = await promisifyRequest(
+            tokens.getAll(IDBKeyRange.bound(token, `${token}\uffff`))
+          )
+          const ids = new Set(entries.flatMap(entry => entry.ids))
+          matchingIds = matchingIds ? matchingIds.filter(id => ids.has(id)) : [...ids]
+          if (matchingIds.length === 0) return []
+        }
+
+        const found: (StoredSummary | undefined)[] = await Promise.all(
+          (matchingIds ?? []).map(id => promisifyRequest(summaries.get(id)))
+        )
+        candidates = found.filter((summary): summary is StoredSummary => !!summary)
+      } else if (filters.hostname) {
+        candidates = await promisifyRequest(summaries.index('hostname').getAll(filters.hostname))
+      } else if (filters.keyTheme) {
+        candidates = await promisifyRequest(summaries.index('keyThemes').getAll(filters.keyTheme))
+      } else {
+        candidates = await promisifyRequest(summaries.getAll())
       }
-      
-      return summaries.sort((a, b) => 
-        new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+
+      return sortNewestFirst(
+        candidates.filter(summary => matchesFilters(summary, filters)).map(fromStoredSummary)
       )
     } catch (error) {
-      console.error('Error getting all summaries:', error)
+      console.error('Error searching summaries:', error)
       return []
     }
   }
   
   async deleteSummary(id: string): Promise<boolean> {
     try {
-      await del(`${SUMMARIES_PREFIX}${id}`)
+      const db = await this.getDatabase()
+      const transaction = db.transaction([SUMMARIES_STORE, TOKENS_STORE, SNAPSHOTS_STORE], 'readwrite')
+      const done = transactionDone(transaction)
+      const summaries = transaction.objectStore(SUMMARIES_STORE)
+
+      const summary: StoredSummary | undefined = await promisifyRequest(summaries.get(id))
+      if (summary) {
+        await removeFromTokenIndex(transaction.objectStore(TOKENS_STORE), id, tokenizeSummary(summary))
+        await promisifyRequest(summaries.delete(id))
+
+        // Drop the snapshot once no summary was written from it
+        if (summary.contentHash) {
+          const sharing = await promisifyRequest(summaries.index('contentHash').count(summary.contentHash))
+          if (sharing === 0) {
+            await promisifyRequest(transaction.objectStore(SNAPSHOTS_STORE).delete(summary.contentHash))
+          }
+        }
+      }
+      await done
+
       await this.updateStats()
       return true
     } catch (error) {
@@ -76,6 +265,26 @@ export class SummaryStorage {
     }
   }
   
+  // Keep the content a summary was written from, so a later visit can diff against it
+  async saveSnapshot(contentHash: string, content: string): Promise<void> {
+    const db = await this.getDatabase()
+    const snapshot: ContentSnapshot = { contentHash, content, createdAt: new Date().toISOString() }
+    await promisifyRequest(db.transaction(SNAPSHOTS_STORE, 'readwrite').objectStore(SNAPSHOTS_STORE).put(snapshot))
+  }
+
+  async getSnapshot(contentHash: string): Promise<string | null> {
+    try {
+      const db = await this.getDatabase()
+      const snapshot: ContentSnapshot | undefined = await promisifyRequest(
+        db.transaction(SNAPSHOTS_STORE).objectStore(SNAPSHOTS_STORE).get(contentHash)
+      )
+      return snapshot?.content ?? null
+    } catch (error) {
+      console.error('Error getting snapshot:', error)
+      return null
+    }
+  }
+  
   private async updateStats(): Promise<void> {
     try {
       const summaries = await this.getAllSummaries()
@@ -83,7 +292,7 @@ export class SummaryStorage {
         totalSummaries: summaries.length,
         totalComments: summaries.reduce((sum, s) => sum + s.commentCount, 0),
         lastUpdated: new Date().toISOString(),
-        domains: [...new Set(summaries.map(s => new URL(s.url).hostname))]
+        domains: [...new Set(summaries.map(s => getHostname(s.url)))]
       }
       
       await set(STATS_KEY, stats)
@@ -113,155 +322,4 @@ export class SummaryStorage {
   }
 }
 
-export class SettingsStorage {
-  async getSettings(): Promise<AppSettings> {
-    try {
-      const settings = await get(SETTINGS_KEY)
-      return settings || {
-        llm: {
-          currentProvider: 'anthropic',
-          providers: {
-            anthropic: {
-              apiKey: '',
-              model: 'claude-3-5-sonnet-20241022'
-            },
-            openai: {
-              apiKey: '',
-              model: 'gpt-4o'
-            },
-            google: {
-              apiKey: '',
-              model: 'gemini-2.5-flash'
-            },
-            xai: {
-              apiKey: '',
-              model: 'grok-2-1212'
-            }
-          },
-          temperature: 0.7
-        },
-        autoSummarize: true,
-        summaryLength: 'brief',
-        minComments: 5,
-        enabledSites: [],
-        customSelectors: []
-      }
-    } catch (error) {
-      console.error('Error getting settings:', error)
-      return {
-        llm: {
-          currentProvider: 'anthropic',
-          providers: {
-            anthropic: {
-              apiKey: '',
-              model: 'claude-3-5-sonnet-20241022'
-            },
-            openai: {
-              apiKey: '',
-              model: 'gpt-4o'
-            },
-            google: {
-              apiKey: '',
-              model: 'gemini-2.5-flash'
-            },
-            xai: {
-              apiKey: '',
-              model: 'grok-2-1212'
-            }
-          },
-          temperature: 0.7
-        },
-        autoSummarize: true,
-        summaryLength: 'brief',
-        minComments: 5,
-        enabledSites: [],
-        customSelectors: []
-      }
-    }
-  }
-  
-  async updateSettings(updates: Partial<AppSettings>): Promise<AppSettings> {
-    try {
-      const currentSettings = await this.getSettings()
-      const newSettings = { ...currentSettings, ...updates }
-      await set(SETTINGS_KEY, newSettings)
-      return newSettings
-    } catch (error) {
-      console.error('Error updating settings:', error)
-      return await this.getSettings()
-    }
-  }
-  
-  async getLLMSettings(): Promise<LLMSettings> {
-    try {
-      const settings = await get(LLM_SETTINGS_KEY)
-      return settings || {
-        currentProvider: 'anthropic',
-        providers: {
-          anthropic: {
-            apiKey: '',
-            model: 'claude-3-5-sonnet-20241022'
-          },
-          openai: {
-            apiKey: '',
-            model: 'gpt-4o'
-          },
-          google: {
-            apiKey: '',
-            model: 'gemini-2.5-flash'
-          },
-          xai: {
-            apiKey: '',
-            model: 'grok-2-1212'
-          }
-        },
-        temperature: 0.7,
-        maxTokens: 1000
-      }
-    } catch (error) {
-      console.error('Error getting LLM settings:', error)
-      return {
-        currentProvider: 'anthropic',
-        providers: {
-          anthropic: {
-            apiKey: '',
-            model: 'claude-3-5-sonnet-20241022'
-          },
-          openai: {
-            apiKey: '',
-            model: 'gpt-4o'
-          },
-          google: {
-            apiKey: '',
-            model: 'gemini-2.5-flash'
-          },
-          xai: {
-            apiKey: '',
-            model: 'grok-2-1212'
-          }
-        },
-        temperature: 0.7,
-        maxTokens: 1000
-      }
-    }
-  }
-  
-  async updateLLMSettings(updates: Partial<LLMSettings>): Promise<LLMSettings> {
-    try {
-      const currentSettings = await this.getLLMSettings()
-      const newSettings = { ...currentSettings, ...updates }
-      await set(LLM_SETTINGS_KEY, newSettings)
-      
-      const appSettings = await this.getSettings()
-      await this.updateSettings({ llm: newSettings })
-      
-      return newSettings
-    } catch (error) {
-      console.error('Error updating LLM settings:', error)
-      return await this.getLLMSettings()
-    }
-  }
-}
-
-export const summaryStorage = new SummaryStorage()
-export const settingsStorage = new SettingsStorage()
\ No newline at end of file
+export const summaryStorage = new SummaryStorage()
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { create } from 'zustand'
-import type { SummaryResult, AppSettings, LLMSettings } from './types'
-import { summaryStorage, settingsStorage } from './storage'
+import type { SummaryResult, AppSettings, GeneratedSummary, ChatMessage, LLMSettings, SummarySearchFilters } from './types'
+import { summaryStorage } from './storage'
+import { getDefaultSettings, settingsStorage } from './settings'
+import { keyVault, type VaultStatus } from './vault'
+import { usageStorage, type BudgetStatus } from './usage'
+import { getCurrentProviderSettings, isProviderConfigured, validateProviderKey } from './providers'
 
 interface AppState {
   summaries: SummaryResult[]
@@ -11,6 +15,8 @@ interface AppState {
   isValidating: boolean
   
   settings: AppSettings
+  vaultStatus: VaultStatus | null
+  budgetStatus: BudgetStatus | null
   
   stats: {
     totalSummaries: number
@@ -20,14 +26,21 @@ interface AppState {
   }
   
   loadSummaries: () => Promise<void>
-  addSummary: (summaryData: Omit<SummaryResult, 'id' | 'createdAt'>) => Promise<SummaryResult | null>
+  addSummary: (summaryData: Omit<GeneratedSummary, 'id' | 'createdAt'>) => Promise<SummaryResult | null>
   deleteSummary: (id: string) => Promise<void>
-  getSummaryByUrl: (url: string) => Promise<SummaryResult | null>
+  getSummary: (id: string) => Promise<SummaryResult | null>
+  getSummaryByUrl: (url: string, canonicalUrl?: string) => Promise<SummaryResult | null>
+  searchSummaries: (query: string, filters?: SummarySearchFilters) => Promise<SummaryResult[]>
   setCurrentSummary: (summary: SummaryResult | null) => void
+  saveChat: (id: string, chat: ChatMessage[]) => Promise<void>
   
   loadSettings: () => Promise<void>
   updateSettings: (updates: Partial<AppSettings>) => Promise<void>
   updateLLMSettings: (updates: Partial<LLMSettings>) => Promise<void>
+  subscribeToSettings: () => () => void
+  loadVaultStatus: () => Promise<void>
+  loadBudgetStatus: () => Promise<void>
+  subscribeToUsage: () => () => void
   
   loadStats: () => Promise<void>
   
@@ -43,36 +56,9 @@ export const useAppStore = create<AppState>((set, get) => ({
   isGenerating: false,
   apiKeyValid: null,
   isValidating: false,
-  settings: {
-    llm: {
-      currentProvider: 'anthropic',
-      providers: {
-        anthropic: {
-          apiKey: '',
-          model: 'claude-3-5-sonnet-20241022'
-        },
-        openai: {
-          apiKey: '',
-          model: 'gpt-4o'
-        },
-        google: {
-          apiKey: '',
-          model: 'gemini-2.5-flash'
-        },
-        xai: {
-          apiKey: '',
-          model: 'grok-2-1212'
-        }
-      },
-      temperature: 0.7,
-      maxTokens: 1000
-    },
-    autoSummarize: true,
-    summaryLength: 'brief',
-    minComments: 5,
-    enabledSites: [],
-    customSelectors: []
-  },
+  settings: getDefaultSettings(),
+  vaultStatus: null,
+  budgetStatus: null,
   stats: {
     totalSummaries: 0,
     totalComments: 0,
@@ -115,19 +101,51 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
   
-  getSummaryByUrl: async (url) => {
+  getSummary: async (id) => {
     try {
-      return await summaryStorage.getSummaryByUrl(url)
+      return await summaryStorage.getSummary(id)
+    } catch (error) {
+      console.error('Error getting summary:', error)
+      return null
+    }
+  },
+  
+  getSummaryByUrl: async (url, canonicalUrl) => {
+    try {
+      return await summaryStorage.getSummaryByUrl(url, canonicalUrl)
     } catch (error) {
       console.error('Error getting summary by URL:', error)
       return null
     }
   },
   
+  searchSummaries: async (query, filters) => {
+    try {
+      return await summaryStorage.searchSummaries(query, filters)
+    } catch (error) {
+      console.error('Error searching summaries:', error)
+      return []
+    }
+  },
+  
   setCurrentSummary: (summary) => {
     set({ currentSummary: summary })
   },
   
+  saveChat: async (id, chat) => {
+    try {
+      const updated = await summaryStorage.updateChat(id, chat)
+      if (!updated) return
+      const { summaries, currentSummary } = get()
+      set({
+        summaries: summaries.map(summary => summary.id === id ? updated : summary),
+        currentSummary: currentSummary?.id === id ? updated : currentSummary
+      })
+    } catch (error) {
+      console.error('Error saving chat:', error)
+    }
+  },
+  
   loadSettings: async () => {
     try {
       const settings = await settingsStorage.getSettings()
@@ -156,6 +174,36 @@ export const useAppStore = create<AppState>((set, get) => ({
     }
   },
   
+  // Keep in step with settings saved by other extension pages and the background worker
+  subscribeToSettings: () => {
+    return settingsStorage.subscribe((settings) => {
+      set({ settings })
+      get().loadVaultStatus()
+      get().loadBudgetStatus()
+    })
+  },
+  
+  loadVaultStatus: async () => {
+    try {
+      set({ vaultStatus: await keyVault.getStatus() })
+    } catch (error) {
+      console.error('Error loading key vault status:', error)
+    }
+  },
+  
+  loadBudgetStatus: async () => {
+    try {
+      set({ budgetStatus: await usageStorage.checkBudget(get().settings.usageBudget) })
+    } catch (error) {
+      console.error('Error loading budget status:', error)
+    }
+  },
+  
+  // Re-check the budget whenever any page or the background worker records a call
+  subscribeToUsage: () => {
+    return usageStorage.subscribe(() => get().loadBudgetStatus())
+  },
+  
   loadStats: async () => {
     try {
       const stats = await summaryStorage.getStats()
@@ -175,54 +223,16 @@ export const useAppStore = create<AppState>((set, get) => ({
   
   validateApiKey: async () => {
     const { settings } = get()
-    const currentProvider = settings?.llm?.providers?.[settings?.llm?.currentProvider]
+    const currentProvider = settings?.llm ? getCurrentProviderSettings(settings.llm) : undefined
     
-    if (!currentProvider?.apiKey || !currentProvider?.model || !settings?.llm?.currentProvider) {
+    if (!currentProvider || !settings?.llm?.currentProvider || !isProviderConfigured(settings.llm)) {
       set({ apiKeyValid: false })
       return
     }
     
     set({ isValidating: true })
     try {
-      const { generateText } = await import('ai')
-      
-      let model: any
-      switch (settings.llm.currentProvider) {
-        case 'anthropic':
-          const { createAnthropic } = await import('@ai-sdk/anthropic')
-          const anthropic = createAnthropic({
-            apiKey: currentProvider.apiKey,
-            headers: { "anthropic-dangerous-direct-browser-access": "true" }
-          })
-          model = anthropic(currentProvider.model)
-          break
-        case 'openai':
-          const { createOpenAI } = await import('@ai-sdk/openai')
-          const openai = createOpenAI({
-            apiKey: currentProvider.apiKey
-          })
-          model = openai(currentProvider.model)
-          break
-        case 'google':
-          const { createGoogleGenerativeAI } = await import('@ai-sdk/google')
-          const google = createGoogleGenerativeAI({
-            apiKey: currentProvider.apiKey
-          })
-          model = google(currentProvider.model)
-          break
-        case 'xai':
-          const { createXai } = await import('@ai-sdk/xai')
-          const xai = createXai({
-            apiKey: currentProvider.apiKey
-          })
-          model = xai(currentProvider.model)
-          break
-      }
-      
-      await generateText({
-        model,
-        prompt: 'Hello'
-      })
+      await validateProviderKey(settings.llm.currentProvider, currentProvider)
       
       set({ apiKeyValid: true })
     } catch (error) {
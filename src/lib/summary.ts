@@ -0,0 +1,285 @@
+import type { JsonSchema, ResponseSchema } from './providers'
+import { extractJson, validateJson, type SchemaValidation } from './schema'
+import type { DigestCrossReference, DiscussionInsights, GeneratedSummary, PageChanges, SummaryMode, SummaryResult } from './types'
+
+// Name of the chrome.runtime port the popup opens for streaming summaries
+export const SUMMARIZE_PORT_NAME = 'summarize'
+
+// Messages the background worker posts on the summarize port
+export type SummaryStreamMessage =
+  | { type: 'token'; text: string }
+  | { type: 'progress'; chunk: number; totalChunks: number }
+  | { type: 'done'; summary: GeneratedSummary }
+  | { type: 'error'; error: string }
+
+// The model writes the summary as plain prose, then this marker, then a JSON
+// tail with the structured fields. Streaming stops showing text at the marker.
+export const SUMMARY_METADATA_MARKER = '###METADATA###'
+
+export interface SummaryMetadata {
+  sentiment: SummaryResult['sentiment']
+  keyThemes: string[]
+  discussion?: DiscussionInsights
+  changes?: PageChanges
+  crossReferences?: DigestCrossReference[]
+}
+
+export interface ParsedSummaryText extends SummaryMetadata {
+  summary: string
+}
+
+// Shape of the structured reply, whether it arrives as a marker tail or as a
+// whole JSON document from native structured output
+export interface SummaryResponse {
+  summary: string
+  sentiment: SummaryResult['sentiment']
+  keyThemes: string[]
+  consensus?: string[]
+  disagreements?: string[]
+  topPoints?: string[]
+  added?: string[]
+  removed?: string[]
+  changed?: string[]
+  crossReferences?: DigestCrossReference[]
+}
+
+const SENTIMENTS: SummaryResult['sentiment'][] = ['positive', 'negative', 'neutral', 'mixed']
+
+function stringList(description: string): JsonSchema {
+  return { type: 'array', description, items: { type: 'string' } }
+}
+
+const SUMMARY_PROPERTIES: Record<string, JsonSchema> = {
+  summary: { type: 'string', description: 'A clear, concise summary in 2-3 sentences of plain text' },
+  sentiment: { type: 'string', description: 'Overall sentiment of the content', enum: SENTIMENTS },
+  keyThemes: stringList('Key themes or topics')
+}
+
+export const SUMMARY_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'page_summary',
+  description: 'Record the summary of a web page with its sentiment and key themes',
+  schema: {
+    type: 'object',
+    properties: SUMMARY_PROPERTIES,
+    required: ['summary', 'sentiment', 'keyThemes'],
+    additionalProperties: false
+  }
+}
+
+export const DISCUSSION_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'discussion_summary',
+  description: 'Record the summary of a comment thread with its consensus, disagreements and top points',
+  schema: {
+    type: 'object',
+    properties: {
+      ...SUMMARY_PROPERTIES,
+      consensus: stringList('Points most commenters agree on'),
+      disagreements: stringList('Points commenters argue about, naming both sides'),
+      topPoints: stringList('The most upvoted or most replied-to arguments, one sentence each')
+    },
+    required: ['summary', 'sentiment', 'keyThemes', 'consensus', 'disagreements', 'topPoints'],
+    additionalProperties: false
+  }
+}
+
+export const CHANGES_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'page_changes',
+  description: 'Record what was added, removed and changed between two versions of a web page',
+  schema: {
+    type: 'object',
+    properties: {
+      ...SUMMARY_PROPERTIES,
+      added: stringList('New content, one sentence each'),
+      removed: stringList('Content that was taken out, one sentence each'),
+      changed: stringList('Content that was reworded or updated, saying what it was and what it is now')
+    },
+    required: ['summary', 'sentiment', 'keyThemes', 'added', 'removed', 'changed'],
+    additionalProperties: false
+  }
+}
+
+export const DIGEST_RESPONSE_SCHEMA: ResponseSchema = {
+  name: 'research_digest',
+  description: 'Record a digest of several sources with the themes they share',
+  schema: {
+    type: 'object',
+    properties: {
+      ...SUMMARY_PROPERTIES,
+      summary: { type: 'string', description: 'An overview of what the sources say together, citing them as [1], [2]' },
+      crossReferences: {
+        type: 'array',
+        description: 'Themes that come up in more than one source',
+        items: {
+          type: 'object',
+          properties: {
+            theme: { type: 'string', description: 'The shared theme' },
+            insight: { type: 'string', description: 'Where the sources agree, differ or add to each other, in one or two sentences' },
+            sources: { type: 'array', description: 'Numbers of the sources that discuss it', items: { type: 'integer' } }
+          },
+          required: ['theme', 'insight', 'sources'],
+          additionalProperties: false
+        }
+      }
+    },
+    required: ['summary', 'sentiment', 'keyThemes', 'crossReferences'],
+    additionalProperties: false
+  }
+}
+
+function toStringList(value: unknown): string[] {
+  return Array.isArray(value)
+    ? value.filter((item: unknown): item is string => typeof item === 'string')
+    : []
+}
+
+function normalizeSentiment(value: unknown): unknown {
+  return typeof value === 'string' ? value.trim().toLowerCase() : value
+}
+
+function normalizeMetadata(data: any): SummaryMetadata {
+  const sentiment = normalizeSentiment(data?.sentiment) as SummaryResult['sentiment']
+  const metadata: SummaryMetadata = {
+    sentiment: SENTIMENTS.includes(sentiment) ? sentiment : 'neutral',
+    keyThemes: toStringList(data?.keyThemes)
+  }
+
+  // Discussion summaries add these lists to the tail
+  if (data?.consensus || data?.disagreements || data?.topPoints) {
+    metadata.discussion = {
+      consensus: toStringList(data.consensus),
+      disagreements: toStringList(data.disagreements),
+      topPoints: toStringList(data.topPoints)
+    }
+  }
+
+  // Digests cross-reference their sources
+  if (Array.isArray(data?.crossReferences)) {
+    metadata.crossReferences = data.crossReferences
+      .filter((reference: any) => typeof reference?.theme === 'string')
+      .map((reference: any) => ({
+        theme: reference.theme,
+        insight: typeof reference.insight === 'string' ? reference.insight : '',
+        sources: Array.isArray(reference.sources) ? reference.sources.filter(Number.isInteger) : []
+      }))
+  }
+
+  // Change summaries list what happened to the page
+  if (data?.added || data?.removed || data?.changed) {
+    metadata.changes = {
+      added: toStringList(data.added),
+      removed: toStringList(data.removed),
+      changed: toStringList(data.changed)
+    }
+  }
+  return metadata
+}
+
+// Collect the structured reply from either format: prose, marker and JSON
+// tail, or a JSON document on its own (structured output and older prompts)
+function extractSummaryResponse(text: string): unknown {
+  const markerIndex = text.indexOf(SUMMARY_METADATA_MARKER)
+  if (markerIndex === -1) return extractJson(text)
+
+  const tail = extractJson(text.slice(markerIndex + SUMMARY_METADATA_MARKER.length))
+  if (typeof tail !== 'object' || tail === null || Array.isArray(tail)) return tail
+  return { ...tail, summary: text.slice(0, markerIndex).trim() }
+}
+
+// Strictly parse a completion against the response schema. Failures list what
+// was wrong so the caller can ask the model for a repaired reply.
+export function parseSummaryResponse(
+  text: string,
+  responseSchema: ResponseSchema
+): SchemaValidation<ParsedSummaryText> {
+  const data = extractSummaryResponse(text) as Partial<SummaryResponse> | undefined
+  if (data === undefined) {
+    return { success: false, errors: ['response does not contain a JSON object'] }
+  }
+
+  const normalized = { ...data, sentiment: normalizeSentiment(data?.sentiment) }
+  const errors = validateJson(normalized, responseSchema.schema)
+  if (errors.length === 0 && !normalized.summary?.trim()) {
+    errors.push('response.summary must not be empty')
+  }
+  if (errors.length > 0) {
+    return { success: false, errors }
+  }
+
+  return { success: true, data: { summary: normalized.summary!.trim(), ...normalizeMetadata(normalized) } }
+}
+
+// Best-effort parse for replies that could not be repaired: keep whatever
+// prose there is and fall back to neutral metadata
+export function parseSummaryText(text: string): ParsedSummaryText {
+  const data: any = extractSummaryResponse(text)
+  const summary = typeof data?.summary === 'string' && data.summary.trim()
+    ? data.summary.trim()
+    : text.split(SUMMARY_METADATA_MARKER)[0].trim()
+  return { summary, ...normalizeMetadata(data) }
+}
+
+// Track streamed tokens and report only the visible summary text, holding back
+// anything that might be the start of the metadata marker.
+export function createSummaryStreamFilter(onSummaryText: (text: string) => void) {
+  let received = ''
+  let emitted = 0
+  let finished = false
+
+  return (token: string) => {
+    if (finished) return
+    received += token
+
+    const markerIndex = received.indexOf(SUMMARY_METADATA_MARKER)
+    const safeEnd = markerIndex === -1
+      ? Math.max(emitted, received.length - SUMMARY_METADATA_MARKER.length)
+      : markerIndex
+
+    if (safeEnd > emitted) {
+      onSummaryText(received.slice(emitted, safeEnd))
+      emitted = safeEnd
+    }
+    if (markerIndex !== -1) finished = true
+  }
+}
+
+// Open a summarize port to the background worker and stream one summary.
+// Resolves with the finished result; disconnecting the port cancels the request.
+export function streamSummary(
+  request: { url: string; title: string; tabId: number; mode?: SummaryMode; templateId?: string; previousSummaryId?: string },
+  onToken: (text: string) => void,
+  onPort?: (port: chrome.runtime.Port) => void,
+  onProgress?: (chunk: number, totalChunks: number) => void
+): Promise<GeneratedSummary> {
+  return new Promise((resolve, reject) => {
+    const port = chrome.runtime.connect({ name: SUMMARIZE_PORT_NAME })
+    let settled = false
+    onPort?.(port)
+
+    port.onMessage.addListener((message: SummaryStreamMessage) => {
+      if (message.type === 'token') {
+        onToken(message.text)
+        return
+      }
+      if (message.type === 'progress') {
+        onProgress?.(message.chunk, message.totalChunks)
+        return
+      }
+
+      settled = true
+      port.disconnect()
+      if (message.type === 'done') {
+        resolve(message.summary)
+      } else {
+        reject(new Error(message.error || 'Failed to generate summary'))
+      }
+    })
+
+    port.onDisconnect.addListener(() => {
+      if (!settled) {
+        reject(new Error('Connection to background worker was lost'))
+      }
+    })
+
+    port.postMessage({ action: 'summarizePage', ...request })
+  })
+}
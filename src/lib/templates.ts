@@ -0,0 +1,124 @@
+import type { AppSettings, PromptTemplate } from './types'
+
+export interface TemplateVariables {
+  title: string
+  content: string
+  url: string
+  length: string
+  language: string
+}
+
+export const TEMPLATE_VARIABLES: { name: keyof TemplateVariables; description: string }[] = [
+  { name: 'title', description: 'Page title' },
+  { name: 'content', description: 'Extracted page content' },
+  { name: 'url', description: 'Page address' },
+  { name: 'length', description: 'Summary length from settings' },
+  { name: 'language', description: 'Your browser language' }
+]
+
+export const DEFAULT_TEMPLATE_ID = 'brief'
+
+// Read-only templates shipped with the extension. Users copy one to edit it.
+// The reply format (summary, then sentiment and themes) is appended to every
+// template, so templates only describe what the summary should say.
+export const BUILT_IN_TEMPLATES: PromptTemplate[] = [
+  {
+    id: 'brief',
+    name: 'Brief',
+    builtIn: true,
+    template: `Please analyze the following web page content and provide a concise summary in 2-3 sentences.
+
+Title: {{title}}
+URL: {{url}}
+
+Content:
+{{content}}
+
+Focus on the main ideas, key facts, and important takeaways. Write the summary in {{language}}.`
+  },
+  {
+    id: 'detailed',
+    name: 'Detailed',
+    builtIn: true,
+    template: `Please analyze the following web page content and provide a detailed summary of two or three paragraphs.
+
+Title: {{title}}
+URL: {{url}}
+
+Content:
+{{content}}
+
+Cover the main argument, the supporting evidence and any conclusions or open questions. Write the summary in {{language}}.`
+  },
+  {
+    id: 'bullets',
+    name: 'Bullet points',
+    builtIn: true,
+    template: `Summarize the following web page as a {{length}} list of bullet points, one key fact or idea per bullet, each starting with "- ".
+
+Title: {{title}}
+URL: {{url}}
+
+Content:
+{{content}}
+
+Write the bullet points in {{language}}.`
+  },
+  {
+    id: 'tldr',
+    name: 'TL;DR',
+    builtIn: true,
+    template: `Give a one-sentence TL;DR of the following web page: the single most important thing a reader should take away.
+
+Title: {{title}}
+
+Content:
+{{content}}
+
+Write it in {{language}}.`
+  },
+  {
+    id: 'eli5',
+    name: 'ELI5',
+    builtIn: true,
+    template: `Explain the following web page as you would to a curious five-year-old: short sentences, everyday words and no jargon. Keep it {{length}}.
+
+Title: {{title}}
+
+Content:
+{{content}}
+
+Write the explanation in {{language}}.`
+  }
+]
+
+// English name of the browser's language, e.g. "English" or "German"
+export function getLanguageName(locale = navigator.language): string {
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(locale.split('-')[0]) ?? locale
+  } catch {
+    return locale
+  }
+}
+
+// Built-in templates first, then the user's own
+export function listPromptTemplates(settings: Pick<AppSettings, 'promptTemplates'>): PromptTemplate[] {
+  return [...BUILT_IN_TEMPLATES, ...(settings.promptTemplates ?? [])]
+}
+
+export function findPromptTemplate(
+  settings: Pick<AppSettings, 'promptTemplates' | 'defaultTemplateId'>,
+  id?: string
+): PromptTemplate {
+  const templates = listPromptTemplates(settings)
+  return templates.find(template => template.id === (id ?? settings.defaultTemplateId))
+    ?? templates.find(template => template.id === DEFAULT_TEMPLATE_ID)!
+}
+
+// Replace {{name}} placeholders; unknown names, including inherited ones like
+// {{constructor}}, are left as written
+export function renderTemplate(template: string, variables: TemplateVariables): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) =>
+    Object.prototype.hasOwnProperty.call(variables, name) ? variables[name as keyof TemplateVariables] : placeholder
+  )
+}
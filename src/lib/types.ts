@@ -1,34 +1,119 @@
-export type LLMProvider = 'anthropic' | 'openai' | 'google' | 'xai';
+export type LLMProvider = 'anthropic' | 'openai' | 'google' | 'xai' | 'custom';
 
 export interface ProviderSettings {
   apiKey: string;
   model: string;
   apiKeyValid?: boolean | null;
   lastValidated?: string;
+  // Self-hosted OpenAI-compatible servers only
+  baseUrl?: string;
+  headers?: Record<string, string>;
 }
 
 export interface LLMSettings {
   currentProvider: LLMProvider | '';
-  providers: {
-    anthropic: ProviderSettings;
-    openai: ProviderSettings;
-    google: ProviderSettings;
-    xai: ProviderSettings;
-  };
+  providers: Record<LLMProvider, ProviderSettings>;
   temperature?: number;
   maxTokens?: number;
+  // Tried in order when the current provider is rate limited, failing or
+  // timing out; only providers with validated keys are used
+  fallbackProviders?: LLMProvider[];
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  // Set when the provider didn't report counts and they were estimated from the text
+  estimated?: boolean;
+}
+
+export interface UsageCost extends TokenUsage {
+  // Estimated US dollars; null when the model's pricing is unknown
+  cost: number | null;
+}
+
+export type UsageFeature = 'summary' | 'chat' | 'selection' | 'digest';
+
+// One provider call, kept for the usage dashboard and budget
+export interface UsageRecord extends UsageCost {
+  id: string;
+  provider: LLMProvider;
+  model: string;
+  feature: UsageFeature;
+  hostname: string;
+  createdAt: string;
+}
+
+export interface UsageBudget {
+  // US dollars per calendar month; null for no budget
+  monthlyLimit: number | null;
+  onExceeded: 'warn' | 'block';
+}
+
+export interface PageMetadata {
+  byline?: string;
+  siteName?: string;
+  publishedTime?: string;
+  language?: string;
+  excerpt?: string;
+}
+
+export type SummaryMode = 'page' | 'discussion' | 'changes';
+
+export interface DiscussionInsights {
+  consensus: string[];
+  disagreements: string[];
+  topPoints: string[];
+}
+
+// What a "changes" summary found between two versions of a page
+export interface PageChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: string;
 }
 
 export interface SummaryResult {
   id: string;
   url: string;
+  // Cache key: the page's canonical URL without tracking parameters
+  canonicalUrl?: string;
+  // SHA-256 of the extracted content, to tell when the page has changed
+  contentHash?: string;
   title: string;
   summary: string;
   sentiment: 'positive' | 'negative' | 'neutral' | 'mixed';
   keyThemes: string[];
   commentCount: number;
+  wordCount?: number;
+  mode?: SummaryMode;
+  templateId?: string;
+  discussion?: DiscussionInsights;
+  changes?: PageChanges;
+  // The summary a "changes" summary compares against
+  previousSummaryId?: string;
   createdAt: string;
   processingTime: number;
+  chunkCount?: number;
+  contentTruncated?: boolean;
+  metadata?: PageMetadata;
+  chat?: ChatMessage[];
+  // The provider and model that actually wrote the summary
+  provider?: LLMProvider;
+  model?: string;
+  usage?: UsageCost;
+}
+
+// A summary fresh from the model. It carries the content it was written from
+// until it is saved, so only kept summaries store a snapshot.
+export interface GeneratedSummary extends SummaryResult {
+  snapshot?: string;
 }
 
 export interface CommentData {
@@ -46,11 +131,92 @@ export interface SiteConfig {
   enabled: boolean;
 }
 
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  template: string;
+  builtIn?: boolean;
+}
+
+export type SelectionAction = 'summarize' | 'explain' | 'translate';
+
+// Where context-menu and shortcut results appear
+export type SelectionOutput = 'overlay' | 'sidepanel';
+
+export interface SelectionResult {
+  action: SelectionAction;
+  selection: string;
+  text: string;
+  status: 'streaming' | 'done' | 'error';
+  error?: string;
+  url: string;
+  createdAt: string;
+}
+
+// Which tabs a batch summarizes: the whole window, or the active tab's group
+export type BatchScope = 'window' | 'group';
+
+export interface BatchTab {
+  tabId: number;
+  url: string;
+  title: string;
+  // 'cached' reuses a saved summary of unchanged content
+  status: 'queued' | 'running' | 'done' | 'cached' | 'skipped' | 'error';
+  summaryId?: string;
+  error?: string;
+}
+
+// A theme the digest found across sources, citing them by number
+export interface DigestCrossReference {
+  theme: string;
+  insight: string;
+  sources: number[];
+}
+
+export interface ResearchDigest {
+  summary: string;
+  sentiment: SummaryResult['sentiment'];
+  keyThemes: string[];
+  crossReferences: DigestCrossReference[];
+  // Numbered from 1 in the order the digest cites them
+  sources: { summaryId: string; url: string; title: string }[];
+  provider?: LLMProvider;
+  model?: string;
+  usage?: UsageCost;
+  createdAt: string;
+}
+
+export interface BatchState {
+  scope: BatchScope;
+  status: 'summarizing' | 'digesting' | 'done' | 'cancelled' | 'error';
+  tabs: BatchTab[];
+  digest?: ResearchDigest;
+  error?: string;
+  startedAt: string;
+}
+
+export type Theme = 'light' | 'dark';
+
 export interface AppSettings {
   llm: LLMSettings;
+  theme: Theme;
+  // Summarize pages matching autoSummarizePatterns as soon as they load
   autoSummarize: boolean;
+  autoSummarizePatterns: string[];
   summaryLength: 'brief' | 'detailed';
   minComments: number;
   enabledSites: SiteConfig[];
   customSelectors: string[];
-}
\ No newline at end of file
+  promptTemplates: PromptTemplate[];
+  defaultTemplateId: string;
+  selectionOutput: SelectionOutput;
+  usageBudget: UsageBudget;
+}
+
+export interface SummarySearchFilters {
+  hostname?: string;
+  sentiment?: SummaryResult['sentiment'];
+  keyTheme?: string;
+  from?: string;
+  to?: string;
+}
@@ -0,0 +1,160 @@
+import type { ModelPricing } from './providers'
+import type { TokenUsage, UsageBudget, UsageCost, UsageRecord } from './types'
+import { USAGE_STORE, openDatabase, promisifyRequest, transactionDone } from './db'
+
+// Bumped in chrome.storage.local after each recorded call so open pages can refresh
+const USAGE_UPDATED_KEY = 'usageUpdatedAt'
+
+export interface UsageRow {
+  key: string
+  calls: number
+  inputTokens: number
+  outputTokens: number
+  cost: number
+  // Calls whose model has no known pricing, so cost is understated
+  unpricedCalls: number
+}
+
+export interface UsageReport {
+  total: UsageRow
+  byProvider: UsageRow[]
+  byDay: UsageRow[]
+  byDomain: UsageRow[]
+}
+
+export interface BudgetStatus {
+  limit: number
+  spent: number
+  exceeded: boolean
+  // Calls are refused until the month ends or the budget is raised
+  blocked: boolean
+}
+
+export function estimateCost({ inputTokens, outputTokens }: TokenUsage, pricing?: ModelPricing): number | null {
+  if (!pricing) return null
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1000000
+}
+
+export function addUsage(total: UsageCost | undefined, usage: UsageCost): UsageCost {
+  if (!total) return usage
+  return {
+    inputTokens: total.inputTokens + usage.inputTokens,
+    outputTokens: total.outputTokens + usage.outputTokens,
+    cost: total.cost === null || usage.cost === null ? null : total.cost + usage.cost,
+    ...((total.estimated || usage.estimated) && { estimated: true })
+  }
+}
+
+export function formatCost(cost: number): string {
+  return cost > 0 && cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`
+}
+
+// Midnight on the first of this month, local time
+function getMonthStart(): string {
+  const now = new Date()
+  return new Date(now.getFullYear(), now.getMonth(), 1).toISOString()
+}
+
+// YYYY-MM-DD in local time
+function getDayKey(createdAt: string): string {
+  return new Date(createdAt).toLocaleDateString('en-CA')
+}
+
+function emptyRow(key: string): UsageRow {
+  return { key, calls: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedCalls: 0 }
+}
+
+function addToRow(row: UsageRow, record: UsageRecord) {
+  row.calls++
+  row.inputTokens += record.inputTokens
+  row.outputTokens += record.outputTokens
+  if (record.cost === null) {
+    row.unpricedCalls++
+  } else {
+    row.cost += record.cost
+  }
+}
+
+function groupRecords(records: UsageRecord[], getKey: (record: UsageRecord) => string): UsageRow[] {
+  const rows = new Map<string, UsageRow>()
+  for (const record of records) {
+    const key = getKey(record)
+    if (!rows.has(key)) rows.set(key, emptyRow(key))
+    addToRow(rows.get(key)!, record)
+  }
+  return [...rows.values()]
+}
+
+// Spend grouped by provider and domain (most expensive first) and by day (newest first)
+export function buildUsageReport(records: UsageRecord[]): UsageReport {
+  const total = emptyRow('total')
+  records.forEach(record => addToRow(total, record))
+  const byCost = (a: UsageRow, b: UsageRow) => b.cost - a.cost || b.calls - a.calls
+
+  return {
+    total,
+    byProvider: groupRecords(records, record => record.provider).sort(byCost),
+    byDay: groupRecords(records, record => getDayKey(record.createdAt)).sort((a, b) => b.key.localeCompare(a.key)),
+    byDomain: groupRecords(records, record => record.hostname || 'other').sort(byCost)
+  }
+}
+
+export function getBudgetStatus(budget: UsageBudget, spent: number): BudgetStatus | null {
+  if (budget.monthlyLimit === null) return null
+  const exceeded = spent >= budget.monthlyLimit
+  return { limit: budget.monthlyLimit, spent, exceeded, blocked: exceeded && budget.onExceeded === 'block' }
+}
+
+export class UsageStorage {
+  async recordUsage(usage: Omit<UsageRecord, 'id' | 'createdAt'>): Promise<UsageRecord> {
+    const record: UsageRecord = { ...usage, id: crypto.randomUUID(), createdAt: new Date().toISOString() }
+    const db = await openDatabase()
+    await promisifyRequest(db.transaction(USAGE_STORE, 'readwrite').objectStore(USAGE_STORE).put(record))
+    await chrome.storage.local.set({ [USAGE_UPDATED_KEY]: record.createdAt })
+    return record
+  }
+
+  // Calls made since the given time, oldest first
+  async getUsage(from?: string): Promise<UsageRecord[]> {
+    try {
+      const db = await openDatabase()
+      return await promisifyRequest(
+        db.transaction(USAGE_STORE).objectStore(USAGE_STORE).index('createdAt').getAll(
+          from ? IDBKeyRange.lowerBound(from) : undefined
+        )
+      )
+    } catch (error) {
+      console.error('Error getting usage:', error)
+      return []
+    }
+  }
+
+  async getMonthlyUsage(): Promise<UsageRecord[]> {
+    return this.getUsage(getMonthStart())
+  }
+
+  async checkBudget(budget: UsageBudget): Promise<BudgetStatus | null> {
+    if (budget.monthlyLimit === null) return null
+    const { total } = buildUsageReport(await this.getMonthlyUsage())
+    return getBudgetStatus(budget, total.cost)
+  }
+
+  async clearUsage(): Promise<void> {
+    const db = await openDatabase()
+    const transaction = db.transaction(USAGE_STORE, 'readwrite')
+    transaction.objectStore(USAGE_STORE).clear()
+    await transactionDone(transaction)
+    await chrome.storage.local.set({ [USAGE_UPDATED_KEY]: new Date().toISOString() })
+  }
+
+  // Call the listener whenever any context records usage; returns an unsubscribe
+  subscribe(listener: () => void): () => void {
+    const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if (areaName === 'local' && USAGE_UPDATED_KEY in changes) listener()
+    }
+    chrome.storage.onChanged.addListener(handleChanged)
+    return () => chrome.storage.onChanged.removeListener(handleChanged)
+  }
+}
+
+export const usageStorage = new UsageStorage()
@@ -5,6 +5,15 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
 }
 
+// Hostname of a URL, or the input itself when it can't be parsed
+export function getHostname(url: string): string {
+  try {
+    return new URL(url).hostname
+  } catch {
+    return url
+  }
+}
+
 export function formatTimeAgo(date: string | Date): string {
   const now = new Date()
   const then = new Date(date)
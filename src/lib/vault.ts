@@ -0,0 +1,259 @@
+import { get, set } from 'idb-keyval'
+import type { LLMProvider } from './types'
+
+// Encrypted API keys, kept apart from the rest of the settings
+const VAULT_KEY = 'vault'
+// The unlocked passphrase key; session storage is memory-only and cleared
+// when the browser closes
+const VAULT_SESSION_KEY = 'vaultSession'
+// A generated key used when no passphrase is set. It can't be exported, so
+// the keys can only be decrypted by this extension on this device.
+const DEVICE_KEY = 'vault_device_key'
+
+const PBKDF2_ITERATIONS = 310000
+// Encrypted with the passphrase key so a wrong passphrase can be detected
+const CHECK_TEXT = 'chrome-llm-starter'
+
+export const DEFAULT_AUTO_LOCK_MINUTES = 60
+
+export type ApiKeys = Partial<Record<LLMProvider, string>>
+export type VaultMode = 'device' | 'passphrase'
+
+interface EncryptedValue {
+  iv: string
+  data: string
+}
+
+interface StoredVault {
+  mode: VaultMode
+  keys: Partial<Record<LLMProvider, EncryptedValue>>
+  // 0 keeps the vault unlocked until the browser closes
+  autoLockMinutes: number
+  // Passphrase mode only
+  salt?: string
+  check?: EncryptedValue
+}
+
+interface VaultSession {
+  key: string
+  expiresAt: number | null
+}
+
+export interface VaultStatus {
+  mode: VaultMode
+  locked: boolean
+  autoLockMinutes: number
+  expiresAt: number | null
+}
+
+function toBase64(bytes: ArrayBuffer | Uint8Array): string {
+  return btoa(String.fromCharCode(...new Uint8Array(bytes)))
+}
+
+function fromBase64(text: string): Uint8Array {
+  return Uint8Array.from(atob(text), (char) => char.charCodeAt(0))
+}
+
+async function encrypt(key: CryptoKey, text: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text))
+  return { iv: toBase64(iv), data: toBase64(data) }
+}
+
+async function decrypt(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.data))
+  return new TextDecoder().decode(data)
+}
+
+async function encryptKeys(key: CryptoKey, keys: ApiKeys): Promise<StoredVault['keys']> {
+  const encrypted: StoredVault['keys'] = {}
+  for (const [provider, apiKey] of Object.entries(keys) as [LLMProvider, string][]) {
+    if (apiKey) encrypted[provider] = await encrypt(key, apiKey)
+  }
+  return encrypted
+}
+
+// Extractable so the unlocked key can be shared with other extension pages through session storage
+async function derivePassphraseKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    true,
+    ['encrypt', 'decrypt']
+  )
+}
+
+export class KeyVault {
+  private deviceKey: CryptoKey | null = null
+
+  private async readVault(): Promise<StoredVault> {
+    const result = await chrome.storage.local.get(VAULT_KEY)
+    return result[VAULT_KEY] ?? { mode: 'device', keys: {}, autoLockMinutes: DEFAULT_AUTO_LOCK_MINUTES }
+  }
+
+  private async writeVault(vault: StoredVault): Promise<void> {
+    await chrome.storage.local.set({ [VAULT_KEY]: vault })
+  }
+
+  private async getDeviceKey(): Promise<CryptoKey> {
+    if (!this.deviceKey) {
+      let key: CryptoKey | undefined = await get(DEVICE_KEY)
+      if (!key) {
+        key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt'])
+        await set(DEVICE_KEY, key)
+      }
+      this.deviceKey = key
+    }
+    return this.deviceKey
+  }
+
+  // Read the unlocked session, clearing it once it has expired
+  private async getSession(): Promise<VaultSession | null> {
+    const result = await chrome.storage.session.get(VAULT_SESSION_KEY)
+    const session: VaultSession | undefined = result[VAULT_SESSION_KEY]
+    if (!session) return null
+
+    if (session.expiresAt !== null && Date.now() >= session.expiresAt) {
+      console.log('🔒 Vault auto-locked')
+      await this.lock()
+      return null
+    }
+    return session
+  }
+
+  private async startSession(key: CryptoKey, autoLockMinutes: number): Promise<void> {
+    const session: VaultSession = {
+      key: toBase64(await crypto.subtle.exportKey('raw', key)),
+      expiresAt: autoLockMinutes > 0 ? Date.now() + autoLockMinutes * 60 * 1000 : null
+    }
+    await chrome.storage.session.set({ [VAULT_SESSION_KEY]: session })
+  }
+
+  // The key that encrypts the API keys, or null while the vault is locked
+  private async getKey(vault: StoredVault): Promise<CryptoKey | null> {
+    if (vault.mode === 'device') return this.getDeviceKey()
+
+    const session = await this.getSession()
+    if (!session) return null
+    return crypto.subtle.importKey('raw', fromBase64(session.key), 'AES-GCM', true, ['encrypt', 'decrypt'])
+  }
+
+  async getStatus(): Promise<VaultStatus> {
+    const vault = await this.readVault()
+    const session = vault.mode === 'passphrase' ? await this.getSession() : null
+    return {
+      mode: vault.mode,
+      locked: vault.mode === 'passphrase' && !session,
+      autoLockMinutes: vault.autoLockMinutes,
+      expiresAt: session?.expiresAt ?? null
+    }
+  }
+
+  async isLocked(): Promise<boolean> {
+    return (await this.getStatus()).locked
+  }
+
+  // Decrypt every stored API key, or return null while the vault is locked
+  async openKeys(): Promise<ApiKeys | null> {
+    const vault = await this.readVault()
+    const key = await this.getKey(vault)
+    if (!key) return null
+
+    const keys: ApiKeys = {}
+    for (const [provider, value] of Object.entries(vault.keys) as [LLMProvider, EncryptedValue][]) {
+      try {
+        keys[provider] = await decrypt(key, value)
+      } catch (error) {
+        // The device key was lost, e.g. site data was cleared; the key has to be entered again
+        console.error(`Error decrypting ${provider} API key:`, error)
+      }
+    }
+    return keys
+  }
+
+  // Replace the stored API keys. Returns false, leaving them untouched, while locked.
+  async sealKeys(keys: ApiKeys): Promise<boolean> {
+    const vault = await this.readVault()
+    const key = await this.getKey(vault)
+    if (!key) return false
+
+    await this.writeVault({ ...vault, keys: await encryptKeys(key, keys) })
+    return true
+  }
+
+  async unlock(passphrase: string): Promise<void> {
+    const vault = await this.readVault()
+    if (vault.mode !== 'passphrase' || !vault.salt || !vault.check) return
+
+    const key = await derivePassphraseKey(passphrase, fromBase64(vault.salt))
+    try {
+      await decrypt(key, vault.check)
+    } catch {
+      throw new Error('Incorrect passphrase')
+    }
+    await this.startSession(key, vault.autoLockMinutes)
+    console.log('🔓 Vault unlocked')
+  }
+
+  async lock(): Promise<void> {
+    await chrome.storage.session.remove(VAULT_SESSION_KEY)
+  }
+
+  // Re-encrypt the API keys under a new passphrase, leaving the vault unlocked
+  async setPassphrase(passphrase: string): Promise<void> {
+    const keys = await this.openKeys()
+    if (!keys) {
+      throw new Error('Unlock your API keys first')
+    }
+
+    const vault = await this.readVault()
+    const salt = crypto.getRandomValues(new Uint8Array(16))
+    const key = await derivePassphraseKey(passphrase, salt)
+    await this.startSession(key, vault.autoLockMinutes)
+    await this.writeVault({
+      ...vault,
+      mode: 'passphrase',
+      keys: await encryptKeys(key, keys),
+      salt: toBase64(salt),
+      check: await encrypt(key, CHECK_TEXT)
+    })
+  }
+
+  // Go back to the device key, so the keys no longer need unlocking
+  async removePassphrase(): Promise<void> {
+    const keys = await this.openKeys()
+    if (!keys) {
+      throw new Error('Unlock your API keys first')
+    }
+
+    const { salt, check, ...vault } = await this.readVault()
+    await this.writeVault({ ...vault, mode: 'device', keys: await encryptKeys(await this.getDeviceKey(), keys) })
+    await this.lock()
+  }
+
+  async setAutoLockMinutes(autoLockMinutes: number): Promise<void> {
+    const vault = await this.readVault()
+    await this.writeVault({ ...vault, autoLockMinutes })
+
+    // Restart the timer so the new setting applies to this session
+    if (vault.mode === 'passphrase') {
+      const key = await this.getKey(vault)
+      if (key) await this.startSession(key, autoLockMinutes)
+    }
+  }
+
+  // Call the listener when the keys change or the vault locks or unlocks; returns an unsubscribe
+  subscribe(listener: () => void): () => void {
+    const handleChanged = (changes: { [key: string]: chrome.storage.StorageChange }, areaName: string) => {
+      if ((areaName === 'local' && VAULT_KEY in changes) || (areaName === 'session' && VAULT_SESSION_KEY in changes)) {
+        listener()
+      }
+    }
+    chrome.storage.onChanged.addListener(handleChanged)
+    return () => chrome.storage.onChanged.removeListener(handleChanged)
+  }
+}
+
+export const keyVault = new KeyVault()
@@ -0,0 +1,9 @@
+import React from "react"
+import { ExtensionApp } from "./components/ExtensionApp"
+import "./style.css"
+
+function IndexSidePanel() {
+  return <ExtensionApp className="w-full min-h-screen" followActiveTab />
+}
+
+export default IndexSidePanel
@@ -0,0 +1,29 @@
+import { OFFSCREEN_TARGET } from "../lib/extraction"
+import { htmlToMarkdown, parseArticle } from "../lib/readability"
+
+// Offscreen document: gives the background worker access to a DOM for parsing pages
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (request.target !== OFFSCREEN_TARGET) return false
+
+  try {
+    if (request.action === "parseArticle") {
+      sendResponse({ success: true, page: parseArticle(request.snapshot) })
+    } else if (request.action === "convertHtml") {
+      sendResponse({ success: true, markdown: htmlToMarkdown(request.html) })
+    }
+  } catch (error) {
+    console.error(`Error handling offscreen ${request.action}:`, error)
+    sendResponse({
+      success: false,
+      error: error instanceof Error ? error.message : "Failed to parse page"
+    })
+  }
+
+  return false
+})
+
+function OffscreenPage() {
+  return null
+}
+
+export default OffscreenPage
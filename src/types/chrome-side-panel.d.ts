@@ -0,0 +1,4 @@
+// chrome.sidePanel.open (Chrome 116+) is missing from the pinned @types/chrome
+declare namespace chrome.sidePanel {
+  export function open(options: { windowId?: number; tabId?: number }): Promise<void>
+}
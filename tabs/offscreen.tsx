@@ -0,0 +1 @@
+export { default } from "../src/tabs/offscreen"
\ No newline at end of file